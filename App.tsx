@@ -1,16 +1,74 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { CreationType, GenerationParams, Creation } from './types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { CreationType, GenerationParams, GenerationStrategy, AllContentResponse, Creation, DoctrinalProfile, LengthMode, LengthPolicy, LengthTrail, LengthUnit, ToleranceKind, LlmProviderId, ProviderSettings, MockScenario, Revision, RevisionField, RevisionSource, ScripturePassage, Series, UsageRecord } from './types';
 import * as geminiService from './services/geminiService';
+import { providerInfo, getDefaultProviderSettings, isProviderConfigured } from './services/llmProviders';
+import { mockScriptPresets, resetMockScript } from './services/mockProvider';
+import { AiErrorKind, GenerationCancelledError, RetryPolicies, defaultRetryPolicies } from './services/aiErrors';
+import { PriceTable, defaultPriceTable, getDayKey, pruneUsageLog } from './services/usageTracker';
+import { CacheSettings, clearResponseCache, defaultCacheSettings, getResponseCacheSize } from './services/responseCache';
+import { describeLength, getDefaultSpeakingWpm, getUnitName, lengthUnitInfo } from './services/lengthUnits';
+import { defaultLengthPolicy, getLengthRange, lengthModeLabels, withLengthDefaults } from './services/lengthPolicy';
+import { fitContentLength } from './services/lengthEngine';
+import { CreationTypeIconName, creationTypes, getCreationTypeDefinition } from './services/creationTypes';
+import { ScriptureReport, verifyScripture } from './services/scriptureCheck';
+import { createPassage } from './services/scripturePassages';
+import { DoctrinalFlag, emptyDoctrinalProfile, findProfileConflicts, hasDoctrinalProfile } from './services/doctrinalProfile';
+import { getNextEpisodeNumber, mergeEpisodeMemory } from './services/series';
+import { loadHistory, syncHistory } from './services/historyStore';
+import { appendRevisions, createRevision, getContentRevisions, getFieldRevisions } from './services/revisions';
+import { PROMPT_REGISTRY_VERSION, PromptTemplateOverrides, StoredPromptTemplates, migratePromptTemplates } from './services/promptTemplates';
 import Header from './components/Header';
 import Selector from './components/Selector';
 import TextAreaInput from './components/TextAreaInput';
 import ResultCard from './components/ResultCard';
 import LoadingSpinner from './components/LoadingSpinner';
 import HistorySidebar from './components/HistorySidebar';
-import { BookOpenIcon, SparklesIcon, PencilIcon, TagIcon, ImageIcon, PrayingHandsIcon, DocumentTextIcon, MegaphoneIcon, TrashIcon, RefreshIcon, ClipboardIcon, ClipboardCheckIcon, CheckIcon, XCircleIcon } from './components/Icons';
+import UsagePanel from './components/UsagePanel';
+import PromptTemplateEditor from './components/PromptTemplateEditor';
+import LengthTrailPicker from './components/LengthTrailPicker';
+import ScriptureCheckPanel from './components/ScriptureCheckPanel';
+import PassagePicker from './components/PassagePicker';
+import DoctrinalProfileEditor from './components/DoctrinalProfileEditor';
+import DoctrinalReviewPanel from './components/DoctrinalReviewPanel';
+import SeriesPicker from './components/SeriesPicker';
+import RevisionHistory from './components/RevisionHistory';
+import HistoryBackupPanel from './components/HistoryBackupPanel';
+import { HistoryMergeResult, ImportConflictStrategy, ParsedHistoryBackup, mergeHistory } from './services/historyBackup';
+import { AUTOSAVE_DELAY_MS, WorkingDraft, applyDraftToHistory, hasUnsavedChanges, loadWorkingDraft, saveWorkingDraft } from './services/autosave';
+import { SparklesIcon, PencilIcon, TagIcon, ImageIcon, DocumentTextIcon, MegaphoneIcon, TrashIcon, RefreshIcon, ClipboardIcon, ClipboardCheckIcon, CheckIcon, XCircleIcon, HistoryIcon, BookOpenIcon, PrayingHandsIcon, SunIcon, ListBulletIcon, UserGroupIcon, FaceSmileIcon } from './components/Icons';
 
 type RegenerationField = 'titles' | 'description' | 'tags' | 'thumbnail' | 'content' | 'cta';
 
+const emptyOutputs: AllContentResponse = { content: '', titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' };
+
+const creationTypeIcons: Record<CreationTypeIconName, typeof BookOpenIcon> = {
+    bookOpen: BookOpenIcon,
+    prayingHands: PrayingHandsIcon,
+    sun: SunIcon,
+    listBullet: ListBulletIcon,
+    userGroup: UserGroupIcon,
+    faceSmile: FaceSmileIcon,
+};
+
+/** The card of each field generated by the parallel strategy. */
+const parallelFieldCards: Record<geminiService.ParallelField, RegenerationField> = {
+    titles: 'titles',
+    description: 'description',
+    tags: 'tags',
+    cta: 'cta',
+    thumbnailPrompt: 'thumbnail',
+};
+
+/** The field of the creation each card regenerates. */
+const regenerationRevisionFields: Record<RegenerationField, RevisionField> = {
+    titles: 'titles',
+    description: 'description',
+    tags: 'tags',
+    thumbnail: 'thumbnailPrompt',
+    content: 'content',
+    cta: 'cta',
+};
+
 const supportedLanguages = [
     { code: 'pt-BR', name: 'Português (Brasil)' },
     { code: 'en-US', name: 'Inglês (EUA)' },
@@ -20,48 +78,208 @@ const supportedLanguages = [
 ];
 
 /**
- * Truncates text smartly to a maximum length.
- * It tries to cut at the last sentence end, then at the last word,
- * before resorting to a hard cut.
- * @param text The text to truncate.
- * @param maxLength The maximum allowed length.
- * @returns The truncated text.
+ * Loads the saved provider settings, falling back to a legacy Gemini API key.
+ * @returns The provider settings to start the app with.
  */
-const smartTruncate = (text: string, maxLength: number): string => {
-    if (text.length <= maxLength) {
-        return text;
+const loadProviderSettings = (): ProviderSettings => {
+    const saved = localStorage.getItem('providerSettings');
+    if (saved) {
+        try {
+            return JSON.parse(saved) as ProviderSettings;
+        } catch (e) {
+            console.error("Failed to parse saved provider settings:", e);
+        }
     }
+    return getDefaultProviderSettings(LlmProviderId.Gemini, localStorage.getItem('geminiApiKey') || '');
+};
 
-    const searchArea = text.substring(0, maxLength);
-    
-    // Find the last period, exclamation, or question mark.
-    const lastSentenceEnd = Math.max(
-        searchArea.lastIndexOf('.'),
-        searchArea.lastIndexOf('!'),
-        searchArea.lastIndexOf('?')
-    );
+/** Error kinds whose number of retries can be tuned in the developer settings. */
+const configurableRetryKinds: { kind: AiErrorKind; label: string }[] = [
+    { kind: AiErrorKind.RateLimit, label: 'Limite de requisições (429)' },
+    { kind: AiErrorKind.Overloaded, label: 'Modelo sobrecarregado (503)' },
+    { kind: AiErrorKind.Network, label: 'Falha de rede' },
+    { kind: AiErrorKind.Parse, label: 'JSON inválido' },
+];
 
-    // If we found a sentence end, and it's not the very beginning, cut there.
-    if (lastSentenceEnd > 0) {
-        return searchArea.substring(0, lastSentenceEnd + 1);
+/**
+ * Loads the saved retry policies on top of the defaults.
+ * @returns The retry policies to start the app with.
+ */
+const loadRetryPolicies = (): RetryPolicies => {
+    const saved = localStorage.getItem('retryPolicies');
+    if (saved) {
+        try {
+            return { ...defaultRetryPolicies, ...JSON.parse(saved) };
+        } catch (e) {
+            console.error("Failed to parse saved retry policies:", e);
+        }
     }
+    return defaultRetryPolicies;
+};
 
-    // If not, try to cut at the last space to avoid breaking a word.
-    const lastSpace = searchArea.lastIndexOf(' ');
-    if (lastSpace > 0) {
-        return searchArea.substring(0, lastSpace) + '...';
+/**
+ * Loads the saved price table on top of the default prices.
+ * @returns The price table to start the app with.
+ */
+const loadPriceTable = (): PriceTable => {
+    const saved = localStorage.getItem('priceTable');
+    if (saved) {
+        try {
+            return { ...defaultPriceTable, ...JSON.parse(saved) };
+        } catch (e) {
+            console.error("Failed to parse saved price table:", e);
+        }
     }
+    return defaultPriceTable;
+};
 
-    // If all else fails, hard truncate.
-    return searchArea.substring(0, maxLength) + '...';
+/**
+ * Loads the saved response cache settings on top of the defaults.
+ * @returns The cache settings to start the app with.
+ */
+const loadCacheSettings = (): CacheSettings => {
+    const saved = localStorage.getItem('cacheSettings');
+    if (saved) {
+        try {
+            return { ...defaultCacheSettings, ...JSON.parse(saved) };
+        } catch (e) {
+            console.error("Failed to parse saved cache settings:", e);
+        }
+    }
+    return defaultCacheSettings;
 };
 
+/**
+ * Loads the user's prompt template overrides, migrating them from older registry versions.
+ * @returns The overrides to start the app with.
+ */
+const loadPromptTemplates = (): PromptTemplateOverrides => {
+    const saved = localStorage.getItem('promptTemplates');
+    if (saved) {
+        try {
+            return migratePromptTemplates(JSON.parse(saved));
+        } catch (e) {
+            console.error("Failed to parse saved prompt templates:", e);
+        }
+    }
+    return {};
+};
+
+/**
+ * Loads the saved doctrinal profile.
+ * @returns The doctrinal profile to start the app with, empty when none was saved.
+ */
+const loadDoctrinalProfile = (): DoctrinalProfile => {
+    const saved = localStorage.getItem('doctrinalProfile');
+    if (saved) {
+        try {
+            return { ...emptyDoctrinalProfile, ...JSON.parse(saved) };
+        } catch (e) {
+            console.error("Failed to parse saved doctrinal profile:", e);
+        }
+    }
+    return emptyDoctrinalProfile;
+};
+
+/**
+ * Loads the saved series with their running synopsis and characters.
+ * @returns The series to start the app with.
+ */
+const loadSeriesList = (): Series[] => {
+    const saved = localStorage.getItem('series');
+    if (saved) {
+        try {
+            return JSON.parse(saved);
+        } catch (e) {
+            console.error("Failed to parse saved series:", e);
+        }
+    }
+    return [];
+};
+
+/**
+ * Loads the saved length tolerance and mode on top of the defaults.
+ * @returns The length policy to start the app with.
+ */
+const loadLengthPolicy = (): LengthPolicy => {
+    const saved = localStorage.getItem('lengthPolicy');
+    if (saved) {
+        try {
+            return { ...defaultLengthPolicy, ...JSON.parse(saved) };
+        } catch (e) {
+            console.error("Failed to parse saved length policy:", e);
+        }
+    }
+    return defaultLengthPolicy;
+};
+
+/**
+ * Loads the narration pace the user set for each language.
+ * @returns The words per minute by language code.
+ */
+const loadSpeakingWpm = (): Record<string, number> => {
+    const saved = localStorage.getItem('speakingWpm');
+    if (saved) {
+        try {
+            return JSON.parse(saved);
+        } catch (e) {
+            console.error("Failed to parse saved speaking pace:", e);
+        }
+    }
+    return {};
+};
+
+/**
+ * Loads the usage log of the last days, dropping calls past the retention period.
+ * @returns The usage records to start the app with.
+ */
+const loadUsageLog = (): UsageRecord[] => {
+    const saved = localStorage.getItem('usageLog');
+    if (saved) {
+        try {
+            return pruneUsageLog(JSON.parse(saved));
+        } catch (e) {
+            console.error("Failed to parse saved usage log:", e);
+        }
+    }
+    return [];
+};
 
 const App: React.FC = () => {
-    // API Key State
-    const [apiKey, setApiKey] = useState<string>(() => localStorage.getItem('geminiApiKey') || '');
-    const [apiKeyInputValue, setApiKeyInputValue] = useState<string>(apiKey);
-    const isApiKeyMissing = !apiKey;
+    // Provider State
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+    const [providerInput, setProviderInput] = useState<ProviderSettings>(providerSettings);
+    const isApiKeyMissing = !isProviderConfigured(providerSettings);
+    const [developerMode, setDeveloperMode] = useState<boolean>(() => localStorage.getItem('developerMode') === 'true');
+    const [retryPolicies, setRetryPolicies] = useState<RetryPolicies>(loadRetryPolicies);
+
+    // Usage State
+    const [sessionUsage, setSessionUsage] = useState<UsageRecord[]>([]);
+    const [usageLog, setUsageLog] = useState<UsageRecord[]>(loadUsageLog);
+    const [priceTable, setPriceTable] = useState<PriceTable>(loadPriceTable);
+    const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
+
+    // Response Cache State
+    const [cacheSettings, setCacheSettings] = useState<CacheSettings>(loadCacheSettings);
+    const [cacheSize, setCacheSize] = useState<number>(getResponseCacheSize);
+    const [cacheHits, setCacheHits] = useState(0);
+
+    // Prompt Template State
+    const [promptTemplates, setPromptTemplates] = useState<PromptTemplateOverrides>(loadPromptTemplates);
+    const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
+
+    // Doctrinal Profile State
+    const [doctrinalProfile, setDoctrinalProfile] = useState<DoctrinalProfile>(loadDoctrinalProfile);
+    const [isDoctrinalProfileOpen, setIsDoctrinalProfileOpen] = useState(false);
+    const [doctrinalReview, setDoctrinalReview] = useState<DoctrinalFlag[] | null>(null);
+    const [isReviewingDoctrine, setIsReviewingDoctrine] = useState(false);
+    const [doctrinalReviewError, setDoctrinalReviewError] = useState<string | null>(null);
+
+    // Series State
+    const [seriesList, setSeriesList] = useState<Series[]>(loadSeriesList);
+    const [currentSeriesId, setCurrentSeriesId] = useState<string | null>(null);
+    const [episodeNumber, setEpisodeNumber] = useState(1);
+    const currentSeries = seriesList.find(series => series.id === currentSeriesId);
 
     // Input State
     const [creationName, setCreationName] = useState('');
@@ -70,8 +288,13 @@ const App: React.FC = () => {
     const [titlePrompt, setTitlePrompt] = useState('');
     const [descriptionPrompt, setDescriptionPrompt] = useState('');
     const [thumbnailPrompt, setThumbnailPrompt] = useState('');
-    const [characterCount, setCharacterCount] = useState(1500);
+    const [lengthUnit, setLengthUnit] = useState<LengthUnit>(LengthUnit.Characters);
+    const [targetLength, setTargetLength] = useState(lengthUnitInfo[LengthUnit.Characters].defaultTarget);
+    const [speakingWpmByLanguage, setSpeakingWpmByLanguage] = useState<Record<string, number>>(loadSpeakingWpm);
+    const [lengthPolicy, setLengthPolicy] = useState<LengthPolicy>(loadLengthPolicy);
     const [language, setLanguage] = useState('pt-BR');
+    const [passages, setPassages] = useState<ScripturePassage[]>([]);
+    const speakingWpm = speakingWpmByLanguage[language] ?? getDefaultSpeakingWpm(language);
 
     // Output State
     const [generatedTitles, setGeneratedTitles] = useState<string[]>([]);
@@ -79,76 +302,388 @@ const App: React.FC = () => {
     const [generatedTags, setGeneratedTags] = useState<string[]>([]);
     const [generatedThumbnailPrompt, setGeneratedThumbnailPrompt] = useState('');
     const [generatedContent, setGeneratedContent] = useState('');
-    const [generatedContentCharCount, setGeneratedContentCharCount] = useState(0);
     const [generatedCta, setGeneratedCta] = useState('');
+    const [lengthTrail, setLengthTrail] = useState<LengthTrail | null>(null);
+    const [scriptureReport, setScriptureReport] = useState<ScriptureReport | null>(null);
 
     // UI State
     const [isGenerating, setIsGenerating] = useState(false);
     const [generationStatus, setGenerationStatus] = useState<string | null>(null);
     const [isEnhancing, setIsEnhancing] = useState(false);
+    const [isStreamingContent, setIsStreamingContent] = useState(false);
+    const stopControllerRef = useRef<AbortController | null>(null);
+    const cancelControllerRef = useRef<AbortController | null>(null);
     const [regeneratingField, setRegeneratingField] = useState<RegenerationField | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [warning, setWarning] = useState<string | null>(null);
     const [copiedField, setCopiedField] = useState<string | null>(null);
     const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isBackupOpen, setIsBackupOpen] = useState(false);
 
     // Modal State
     const [regenModalField, setRegenModalField] = useState<RegenerationField | null>(null);
     const [regenModificationPrompt, setRegenModificationPrompt] = useState('');
+    const [regenBypassCache, setRegenBypassCache] = useState(false);
+    const [revisionCard, setRevisionCard] = useState<RegenerationField | null>(null);
+    const [fieldErrors, setFieldErrors] = useState<Partial<Record<RegenerationField, string>>>({});
+    const [generationStrategy, setGenerationStrategy] = useState<GenerationStrategy>(
+        () => (localStorage.getItem('generationStrategy') as GenerationStrategy) || GenerationStrategy.Single
+    );
 
     // History State
     const [history, setHistory] = useState<Creation[]>([]);
     const [currentCreationId, setCurrentCreationId] = useState<string | null>(null);
 
-    // Load History from localStorage on mount
+    /** The history as last written to the database; null until it has been loaded. */
+    const savedHistoryRef = useRef<Creation[] | null>(null);
+    /** The current history, read by the autosave without restarting its delay on every save. */
+    const historyRef = useRef<Creation[]>(history);
+    historyRef.current = history;
+    /** The working state waiting for the autosave delay, if any. */
+    const pendingDraftRef = useRef<WorkingDraft | null>(null);
+    const [hasPendingChanges, setHasPendingChanges] = useState(false);
+
+    // Load History from IndexedDB on mount
+    useEffect(() => {
+        loadHistory().then(({ creations, skipped, legacyUnreadable }) => {
+            savedHistoryRef.current = creations;
+            // The draft of the last session may hold edits its creation did not get before the page closed.
+            const draft = loadWorkingDraft();
+            setHistory(draft ? applyDraftToHistory(creations, draft) : creations);
+            if (legacyUnreadable) {
+                setWarning("O histórico da versão anterior está corrompido e não pôde ser importado. Ele foi mantido no navegador, sem alterações.");
+            } else if (skipped > 0) {
+                setWarning(`${skipped} criação(ões) do histórico não puderam ser lidas e foram ignoradas.`);
+            }
+        }).catch(err => {
+            console.error(err);
+            savedHistoryRef.current = [];
+            setError(err instanceof Error ? err.message : "Não foi possível carregar o histórico.");
+        });
+    }, []);
+
+    // Save the changed creations whenever the history changes
     useEffect(() => {
-        const savedHistory = localStorage.getItem('generationHistory');
-        if (savedHistory) {
-            setHistory(JSON.parse(savedHistory));
+        const saved = savedHistoryRef.current;
+        if (!saved || saved === history) return;
+        savedHistoryRef.current = history;
+        syncHistory(saved, history).catch(err => {
+            console.error(err);
+            // Keep the failed changes pending, so the next save retries them.
+            if (savedHistoryRef.current === history) {
+                savedHistoryRef.current = saved;
+            }
+            setError(err instanceof Error ? err.message : "Não foi possível salvar o histórico.");
+        });
+    }, [history]);
+
+    /**
+     * Saves the pending working state right away: into its creation in the history and as the draft.
+     */
+    const flushAutosave = useCallback(() => {
+        const draft = pendingDraftRef.current;
+        if (!draft) return;
+        pendingDraftRef.current = null;
+        const isDraftSaved = saveWorkingDraft(draft);
+        if (draft.creationId) {
+            setHistory(prev => applyDraftToHistory(prev, draft));
         }
+        setHasPendingChanges(!draft.creationId && !isDraftSaved);
     }, []);
 
-    // Save history to localStorage whenever it changes
+    // Bring back the work left on screen by the last session
     useEffect(() => {
-        if (history.length > 0) {
-            localStorage.setItem('generationHistory', JSON.stringify(history));
-        } else {
-            localStorage.removeItem('generationHistory');
+        const draft = loadWorkingDraft();
+        if (draft) showWorkingDraft(draft);
+    }, []);
+
+    // Keep what is typed when the page is closed before the autosave delay
+    useEffect(() => {
+        window.addEventListener('beforeunload', flushAutosave);
+        return () => window.removeEventListener('beforeunload', flushAutosave);
+    }, [flushAutosave]);
+
+    // Save the series whenever their memory or settings change
+    useEffect(() => {
+        localStorage.setItem('series', JSON.stringify(seriesList));
+    }, [seriesList]);
+
+    // Check the Bible references of the content once it stops changing
+    useEffect(() => {
+        if (!generatedContent || isStreamingContent) {
+            setScriptureReport(null);
+            return;
         }
-    }, [history]);
+        let isCurrent = true;
+        const timer = setTimeout(() => {
+            verifyScripture(generatedContent, language).then(report => {
+                if (isCurrent) setScriptureReport(report);
+            });
+        }, 500);
+        return () => {
+            isCurrent = false;
+            clearTimeout(timer);
+        };
+    }, [generatedContent, isStreamingContent, language]);
+
+    // A review only applies to the content it was made for
+    useEffect(() => {
+        setDoctrinalReview(null);
+        setDoctrinalReviewError(null);
+    }, [generatedContent]);
+
+    // Save the usage log whenever a call is recorded
+    useEffect(() => {
+        localStorage.setItem('usageLog', JSON.stringify(usageLog));
+    }, [usageLog]);
+
+    const handlePriceTableChange = (updatedPriceTable: PriceTable) => {
+        setPriceTable(updatedPriceTable);
+        localStorage.setItem('priceTable', JSON.stringify(updatedPriceTable));
+    };
+
+    const handleCacheSettingsChange = (updatedSettings: CacheSettings) => {
+        setCacheSettings(updatedSettings);
+        localStorage.setItem('cacheSettings', JSON.stringify(updatedSettings));
+    };
+
+    const handleClearCache = () => {
+        clearResponseCache();
+        setCacheSize(0);
+    };
+
+    const handleCacheHit = useCallback(() => {
+        setCacheHits(prev => prev + 1);
+    }, []);
+
+    const handlePromptTemplatesChange = (overrides: PromptTemplateOverrides) => {
+        setPromptTemplates(overrides);
+        const stored: StoredPromptTemplates = { version: PROMPT_REGISTRY_VERSION, overrides };
+        localStorage.setItem('promptTemplates', JSON.stringify(stored));
+    };
+
+    const handleDoctrinalProfileChange = (profile: DoctrinalProfile) => {
+        setDoctrinalProfile(profile);
+        setDoctrinalReview(null);
+        localStorage.setItem('doctrinalProfile', JSON.stringify(profile));
+    };
+
+    const handleUsage = useCallback((record: UsageRecord) => {
+        setSessionUsage(prev => [...prev, record]);
+        setUsageLog(prev => pruneUsageLog([...prev, record]));
+    }, []);
+
+    /**
+     * Adds the usage of a finished request to a saved creation.
+     */
+    const appendCreationUsage = useCallback((id: string | null, records: UsageRecord[]) => {
+        if (!id || records.length === 0) return;
+        setHistory(prev => prev.map(c => c.id === id ? { ...c, usage: [...(c.usage ?? []), ...records], updatedAt: Date.now() } : c));
+    }, []);
+
+    /**
+     * Saves new values of fields of a saved creation along with their revisions.
+     * The revisions are added against the creation as it was, so older values are kept.
+     */
+    const recordRevisions = useCallback((id: string | null, revisions: Revision[], changes: Partial<AllContentResponse>, lengthTrail?: LengthTrail) => {
+        if (!id) return;
+        setHistory(prev => prev.map((c: Creation) => c.id === id ? {
+            ...c,
+            outputs: { ...c.outputs, ...changes },
+            ...(lengthTrail ? { lengthTrail } : {}),
+            revisions: appendRevisions(c, revisions),
+            updatedAt: Date.now(),
+        } : c));
+    }, []);
+
+    /**
+     * Goes back to another version from the refinement trail of the content.
+     */
+    const handleSelectLengthCandidate = (index: number) => {
+        if (!lengthTrail) return;
+        const updatedTrail = { ...lengthTrail, selected: index };
+        const content = updatedTrail.candidates[index].content;
+        setLengthTrail(updatedTrail);
+        setGeneratedContent(content);
+        recordRevisions(currentCreationId, [createRevision('content', content, RevisionSource.Restored)], { content }, updatedTrail);
+    };
 
     const handleApiKeySave = () => {
-        const trimmedKey = apiKeyInputValue.trim();
-        if (trimmedKey) {
-            setApiKey(trimmedKey);
-            localStorage.setItem('geminiApiKey', trimmedKey);
+        const trimmedSettings: ProviderSettings = {
+            provider: providerInput.provider,
+            apiKey: providerInput.apiKey.trim(),
+            baseUrl: providerInput.baseUrl.trim(),
+            model: providerInput.model.trim(),
+            mockScript: providerInput.mockScript,
+        };
+        if (isProviderConfigured(trimmedSettings)) {
+            resetMockScript();
+            setProviderSettings(trimmedSettings);
+            setProviderInput(trimmedSettings);
+            localStorage.setItem('providerSettings', JSON.stringify(trimmedSettings));
+            localStorage.removeItem('geminiApiKey');
             setError(null);
             setWarning(null);
         } else {
-            setError("A chave de API não pode estar vazia.");
+            setError(providerInfo[trimmedSettings.provider].requiresApiKey && !trimmedSettings.apiKey
+                ? "A chave de API não pode estar vazia."
+                : "Informe o endereço e o modelo do provedor.");
         }
     };
 
     const handleApiKeyRemove = () => {
-        setApiKey('');
-        setApiKeyInputValue('');
+        const clearedSettings = getDefaultProviderSettings(providerSettings.provider);
+        setProviderSettings(clearedSettings);
+        setProviderInput(clearedSettings);
+        localStorage.removeItem('providerSettings');
         localStorage.removeItem('geminiApiKey');
     };
 
-    // Update character count for the main content
-    useEffect(() => {
-        setGeneratedContentCharCount(generatedContent.length);
-    }, [generatedContent]);
+    const handleDeveloperModeChange = (enabled: boolean) => {
+        setDeveloperMode(enabled);
+        localStorage.setItem('developerMode', String(enabled));
+    };
+
+    const handleMaxRetriesChange = (kind: AiErrorKind, maxRetries: number) => {
+        const updatedPolicies = { ...retryPolicies, [kind]: { ...retryPolicies[kind], maxRetries: Math.max(0, maxRetries) } };
+        setRetryPolicies(updatedPolicies);
+        localStorage.setItem('retryPolicies', JSON.stringify(updatedPolicies));
+    };
+
+    const handleProviderChange = (provider: LlmProviderId) => {
+        setProviderInput(provider === providerSettings.provider ? providerSettings : getDefaultProviderSettings(provider));
+        setError(null);
+    };
 
     const getGenerationParams = useCallback((): GenerationParams => ({
-        creationName, creationType, mainPrompt, titlePrompt, descriptionPrompt, thumbnailPrompt, characterCount, language
-    }), [creationName, creationType, mainPrompt, titlePrompt, descriptionPrompt, thumbnailPrompt, characterCount, language]);
+        creationName, creationType, mainPrompt, titlePrompt, descriptionPrompt, thumbnailPrompt, lengthUnit, targetLength, speakingWpm, lengthPolicy, language, passages,
+        seriesId: currentSeriesId ?? undefined,
+        episodeNumber: currentSeriesId ? episodeNumber : undefined,
+    }), [creationName, creationType, mainPrompt, titlePrompt, descriptionPrompt, thumbnailPrompt, lengthUnit, targetLength, speakingWpm, lengthPolicy, language, passages, currentSeriesId, episodeNumber]);
+
+    /**
+     * Puts the creation in a series, numbering it after the last saved episode
+     * unless it already is an episode of that series.
+     */
+    const handleSeriesSelect = (seriesId: string | null) => {
+        setCurrentSeriesId(seriesId);
+        if (!seriesId) return;
+        const current = history.find(c => c.id === currentCreationId)?.params;
+        setEpisodeNumber(current?.seriesId === seriesId && current.episodeNumber
+            ? current.episodeNumber
+            : getNextEpisodeNumber(history, seriesId));
+    };
+
+    const handleSeriesCreate = (series: Series) => {
+        setSeriesList(prev => [series, ...prev]);
+        setCurrentSeriesId(series.id);
+        setEpisodeNumber(1);
+    };
+
+    const handleSeriesChange = (series: Series) => {
+        setSeriesList(prev => prev.map(s => s.id === series.id ? series : s));
+    };
+
+    /**
+     * Deletes a series; its episodes stay in the history as standalone creations.
+     */
+    const handleDeleteSeries = (seriesId: string) => {
+        if (!window.confirm("Tem certeza que deseja apagar esta série? Os episódios continuarão no histórico.")) return;
+        setSeriesList(prev => prev.filter(s => s.id !== seriesId));
+        setHistory(prev => prev.map((c: Creation) => c.params.seriesId === seriesId ? { ...c, params: { ...c.params, seriesId: undefined, episodeNumber: undefined }, updatedAt: Date.now() } : c));
+        if (currentSeriesId === seriesId) {
+            setCurrentSeriesId(null);
+        }
+    };
+
+    /**
+     * Records the summary and characters of a finished episode in its series, so the next
+     * episodes continue from it. A failure only warns: the episode itself is already saved.
+     */
+    const updateSeriesMemory = useCallback(async (params: GenerationParams, content: string, tags: string[], requestOptions: geminiService.RequestOptions) => {
+        const series = requestOptions.series;
+        if (!series || !params.episodeNumber || !content) return;
+        setGenerationStatus('Atualizando a memória da série...');
+        try {
+            const memory = await geminiService.summarizeEpisode(providerSettings, params, content, requestOptions);
+            setSeriesList(prev => prev.map(s => s.id === series.id ? mergeEpisodeMemory(s, params.episodeNumber, memory, tags) : s));
+        } catch (err) {
+            console.error(err);
+            setWarning(err instanceof GenerationCancelledError
+                ? "A memória da série não foi atualizada porque a geração foi cancelada."
+                : `O episódio foi salvo, mas a memória da série não foi atualizada: ${err instanceof Error ? err.message : 'erro desconhecido'}.`);
+        }
+    }, [providerSettings]);
+
+    const handleContentChunk = useCallback((contentSoFar: string) => {
+        setIsStreamingContent(true);
+        setGeneratedContent(contentSoFar);
+    }, []);
+
+    const handleStopStreaming = () => {
+        stopControllerRef.current?.abort();
+    };
+
+    const handleCancel = () => {
+        cancelControllerRef.current?.abort();
+    };
+
+    const applyOutputs = useCallback((outputs: Partial<AllContentResponse>) => {
+        if (outputs.content !== undefined) setGeneratedContent(outputs.content);
+        if (outputs.titles !== undefined) setGeneratedTitles(outputs.titles);
+        if (outputs.description !== undefined) setGeneratedDescription(outputs.description);
+        if (outputs.tags !== undefined) setGeneratedTags(outputs.tags);
+        if (outputs.cta !== undefined) setGeneratedCta(outputs.cta);
+        if (outputs.thumbnailPrompt !== undefined) setGeneratedThumbnailPrompt(outputs.thumbnailPrompt);
+    }, []);
+
+    const handleLengthUnitChange = (unit: LengthUnit) => {
+        setLengthUnit(unit);
+        setTargetLength(lengthUnitInfo[unit].defaultTarget);
+    };
+
+    const handleCreationTypeChange = (type: CreationType) => {
+        setCreationType(type);
+        const { unit, target } = getCreationTypeDefinition(type).defaultLength;
+        setLengthUnit(unit);
+        setTargetLength(target);
+    };
+
+    /**
+     * Switches the content language and takes the chosen passages again from the
+     * translation of the new language.
+     */
+    const handleLanguageChange = async (code: string) => {
+        setLanguage(code);
+        if (passages.length === 0) return;
+        try {
+            setPassages(await Promise.all(passages.map(p => createPassage(code, p.bookId, p.chapter, p.verseStart, p.verseEnd))));
+        } catch (err) {
+            console.error("Failed to reload the passages in the new translation:", err);
+        }
+    };
+
+    const handleSpeakingWpmChange = (wpm: number) => {
+        const updated = { ...speakingWpmByLanguage, [language]: Math.max(1, wpm) };
+        setSpeakingWpmByLanguage(updated);
+        localStorage.setItem('speakingWpm', JSON.stringify(updated));
+    };
+
+    const handleLengthPolicyChange = (updatedPolicy: LengthPolicy) => {
+        setLengthPolicy(updatedPolicy);
+        localStorage.setItem('lengthPolicy', JSON.stringify(updatedPolicy));
+    };
+
+    const handleGenerationStrategyChange = (strategy: GenerationStrategy) => {
+        setGenerationStrategy(strategy);
+        localStorage.setItem('generationStrategy', strategy);
+    };
     
     const handleEnhancePrompt = useCallback(async (e: React.MouseEvent) => {
         e.preventDefault();
         e.stopPropagation();
-        if (!apiKey) {
-            setError("Por favor, insira e salve sua chave de API do Gemini.");
+        if (isApiKeyMissing) {
+            setError("Por favor, configure e salve o provedor de IA.");
             return;
         }
         if (!mainPrompt) {
@@ -158,23 +693,45 @@ const App: React.FC = () => {
         setIsEnhancing(true);
         setError(null);
         setWarning(null);
+        setCacheHits(0);
         setGenerationStatus('Aprimorando ideia...');
+        const cancelController = new AbortController();
+        cancelControllerRef.current = cancelController;
+        const runUsage: UsageRecord[] = [];
         try {
             const params = getGenerationParams();
-            const enhanced = await geminiService.enhanceStoryPrompt(apiKey, params, setGenerationStatus);
+            const enhanced = await geminiService.enhanceStoryPrompt(providerSettings, params, {
+                onStatusUpdate: setGenerationStatus,
+                signal: cancelController.signal,
+                retryPolicies,
+                promptTemplates,
+                doctrinalProfile,
+                cache: cacheSettings,
+                onCacheHit: handleCacheHit,
+                onUsage: (record) => { runUsage.push(record); handleUsage(record); },
+            });
             setMainPrompt(enhanced);
+            appendCreationUsage(currentCreationId, runUsage);
         } catch (err) {
-            console.error(err);
-            setError(err instanceof Error ? `Erro ao aprimorar ideia: ${err.message}` : "Ocorreu um erro desconhecido.");
+            if (err instanceof GenerationCancelledError) {
+                setWarning("O aprimoramento foi cancelado. A ideia original foi mantida.");
+            } else {
+                console.error(err);
+                setError(err instanceof Error ? `Erro ao aprimorar ideia: ${err.message}` : "Ocorreu um erro desconhecido.");
+            }
         } finally {
+            cancelControllerRef.current = null;
             setIsEnhancing(false);
             setGenerationStatus(null);
+            setCacheSize(getResponseCacheSize());
         }
-    }, [mainPrompt, getGenerationParams, apiKey]);
+    }, [mainPrompt, getGenerationParams, providerSettings, isApiKeyMissing, retryPolicies, promptTemplates, doctrinalProfile, cacheSettings, handleCacheHit, handleUsage, appendCreationUsage, currentCreationId]);
     
     const handleNewProject = () => {
+        flushAutosave();
         setCreationName('');
         setMainPrompt('');
+        setPassages([]);
         setTitlePrompt('');
         setDescriptionPrompt('');
         setThumbnailPrompt('');
@@ -184,14 +741,19 @@ const App: React.FC = () => {
         setGeneratedThumbnailPrompt('');
         setGeneratedContent('');
         setGeneratedCta('');
+        setLengthTrail(null);
         setError(null);
         setWarning(null);
+        setFieldErrors({});
         setCurrentCreationId(null);
+        if (currentSeriesId) {
+            setEpisodeNumber(getNextEpisodeNumber(history, currentSeriesId));
+        }
     };
     
     const handleGenerateAll = async () => {
-        if (!apiKey) {
-            setError("Por favor, insira e salve sua chave de API do Gemini.");
+        if (isApiKeyMissing) {
+            setError("Por favor, configure e salve o provedor de IA.");
             return;
         }
         if (!mainPrompt) {
@@ -202,7 +764,19 @@ const App: React.FC = () => {
         setIsGenerating(true);
         setError(null);
         setWarning(null);
+        setCacheHits(0);
+        setFieldErrors({});
         setGenerationStatus('Gerando todo o conteúdo...');
+
+        const previousOutputs: AllContentResponse = {
+            content: generatedContent,
+            titles: generatedTitles,
+            description: generatedDescription,
+            tags: generatedTags,
+            cta: generatedCta,
+            thumbnailPrompt: generatedThumbnailPrompt,
+        };
+        const previousLengthTrail = lengthTrail;
         
         if (!currentCreationId) {
             setGeneratedTitles([]);
@@ -213,105 +787,171 @@ const App: React.FC = () => {
             setGeneratedCta('');
         }
 
+        const stopController = new AbortController();
+        stopControllerRef.current = stopController;
+        const cancelController = new AbortController();
+        cancelControllerRef.current = cancelController;
+        const runUsage: UsageRecord[] = [];
+        const requestOptions = {
+            onStatusUpdate: setGenerationStatus,
+            signal: cancelController.signal,
+            retryPolicies,
+            promptTemplates,
+            doctrinalProfile,
+            series: currentSeries,
+            cache: cacheSettings,
+            onCacheHit: handleCacheHit,
+            onUsage: (record: UsageRecord) => { runUsage.push(record); handleUsage(record); },
+        };
+
         try {
             const params = getGenerationParams();
-            let allContent = await geminiService.generateAllContent(apiKey, params, setGenerationStatus);
-            let finalContent = allContent.content;
-            
-            const minChars = Math.max(100, params.characterCount - 500);
-            const maxChars = params.characterCount + 500;
-            const MAX_REFINEMENT_ATTEMPTS = 2;
-
-            let refinementAttempts = 0;
-            while (
-                (finalContent.length < minChars || finalContent.length > maxChars) &&
-                refinementAttempts < MAX_REFINEMENT_ATTEMPTS
-            ) {
-                refinementAttempts++;
-                const isTooLong = finalContent.length > maxChars;
-                setGenerationStatus(`Tentativa ${refinementAttempts}/${MAX_REFINEMENT_ATTEMPTS}: Conteúdo fora do alvo. ${isTooLong ? 'Resumindo' : 'Expandindo'}...`);
-
-                finalContent = await geminiService.refineTextLength(apiKey, params, finalContent, setGenerationStatus);
-            }
-
-            allContent.content = finalContent;
-            const finalContentLen = finalContent.length;
-            
-            setError(null);
-            setWarning(null);
-
-            if (finalContentLen < minChars || finalContentLen > maxChars) {
-                if (finalContentLen > maxChars) {
-                    const originalLength = finalContentLen;
-                    allContent.content = smartTruncate(finalContent, maxChars);
-                    setWarning(`A IA não conseguiu ajustar o texto em ${MAX_REFINEMENT_ATTEMPTS} tentativas. O resultado (${originalLength} caracteres) foi ajustado automaticamente.`);
-                } else {
-                    setError(`A IA não conseguiu refinar o conteúdo para a faixa de caracteres desejada (${minChars}-${maxChars}). O resultado final tem ${finalContentLen} caracteres.`);
-                }
-            } else {
-                if (refinementAttempts > 0) {
-                    setWarning(`O conteúdo foi refinado pela IA em ${refinementAttempts} tentativa(s) para se ajustar ao tamanho solicitado.`);
-                }
-            }
+            const isLongForm = geminiService.isLongForm(params);
+            const isParallel = generationStrategy === GenerationStrategy.Parallel || isLongForm;
+            const writeContent = isLongForm ? geminiService.generateLongFormContent : geminiService.generateContent;
+            const streamingOptions = { ...requestOptions, onContentChunk: handleContentChunk, stopSignal: stopController.signal };
+            // The parallel strategy and long-form stories write the main text first; the other fields are generated from it below.
+            let allContent: AllContentResponse = isParallel
+                ? { ...(currentCreationId ? previousOutputs : emptyOutputs), content: await writeContent(providerSettings, params, undefined, streamingOptions) }
+                : await geminiService.generateAllContent(providerSettings, params, streamingOptions);
+            setIsStreamingContent(false);
+            const wasStopped = stopController.signal.aborted;
+            const fitted = await fitContentLength(providerSettings, params, allContent.content, { wasStopped }, requestOptions);
+            allContent.content = fitted.content;
+            setError(fitted.notice?.kind === 'error' ? fitted.notice.message : null);
+            setWarning(fitted.notice?.kind === 'warning' ? fitted.notice.message : null);
 
             setGeneratedContent(allContent.content);
+            setLengthTrail(fitted.trail);
             setGeneratedTitles(allContent.titles);
             setGeneratedDescription(allContent.description);
             setGeneratedTags(allContent.tags);
             setGeneratedCta(allContent.cta);
             setGeneratedThumbnailPrompt(allContent.thumbnailPrompt);
 
+            if (isParallel && !wasStopped) {
+                applyOutputs({ titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' });
+                setGenerationStatus('Gerando títulos, descrição, tags, CTA e thumbnail a partir do texto final...');
+                const { fields, errors } = await geminiService.generateFieldsInParallel(providerSettings, params, allContent.content, {
+                    ...requestOptions,
+                    onFieldDone: applyOutputs,
+                    onFieldError: (field, fieldError) => setFieldErrors(prev => ({ ...prev, [parallelFieldCards[field]]: fieldError.message })),
+                });
+                allContent = { ...emptyOutputs, ...fields, content: allContent.content };
+                const failedCount = Object.keys(errors).length;
+                if (failedCount > 0) {
+                    setWarning(`${failedCount} campo(s) não puderam ser gerados. Os demais foram mantidos; use "Tentar novamente" no cartão correspondente.`);
+                }
+            }
+
             const newCreation: Creation = {
                 id: currentCreationId || `creation-${Date.now()}`,
                 timestamp: Date.now(),
-                ...params,
-                ...allContent
+                updatedAt: Date.now(),
+                params,
+                outputs: allContent,
+                lengthTrail: fitted.trail,
             };
+            const generatedRevisions = [
+                ...getContentRevisions(fitted.trail, RevisionSource.Generated),
+                ...(['titles', 'description', 'tags', 'cta', 'thumbnailPrompt'] as const).map(field => createRevision(field, allContent[field], RevisionSource.Generated)),
+            ];
             
             setHistory(prevHistory => {
                 const existingIndex = prevHistory.findIndex(item => item.id === newCreation.id);
                 if (existingIndex > -1) {
+                    const existing = prevHistory[existingIndex];
                     const updatedHistory = [...prevHistory];
-                    updatedHistory[existingIndex] = newCreation;
+                    updatedHistory[existingIndex] = {
+                        ...newCreation,
+                        // A regeneration changes the creation; it keeps the date it was created on.
+                        timestamp: existing.timestamp,
+                        usage: [...(existing.usage ?? []), ...runUsage],
+                        revisions: appendRevisions(existing, generatedRevisions),
+                    };
                     return updatedHistory;
                 }
-                return [newCreation, ...prevHistory];
+                return [{ ...newCreation, usage: [...runUsage], revisions: appendRevisions({ timestamp: newCreation.timestamp }, generatedRevisions) }, ...prevHistory];
             });
             setCurrentCreationId(newCreation.id);
 
+            if (!wasStopped) {
+                const usageBeforeMemory = runUsage.length;
+                await updateSeriesMemory(params, allContent.content, allContent.tags, requestOptions);
+                appendCreationUsage(newCreation.id, runUsage.slice(usageBeforeMemory));
+            }
+
         } catch (err) {
-            console.error(err);
-            setError(err instanceof Error ? err.message : "Ocorreu um erro desconhecido durante a geração.");
+            applyOutputs(previousOutputs);
+            setLengthTrail(previousLengthTrail);
+            if (err instanceof GenerationCancelledError) {
+                setWarning("A geração foi cancelada. Os resultados anteriores foram mantidos.");
+            } else {
+                console.error(err);
+                setError(err instanceof Error ? err.message : "Ocorreu um erro desconhecido durante a geração.");
+            }
         } finally {
+            stopControllerRef.current = null;
+            cancelControllerRef.current = null;
+            setIsStreamingContent(false);
             setIsGenerating(false);
             setGenerationStatus(null);
+            setCacheSize(getResponseCacheSize());
         }
     };
     
+    /**
+     * Puts a working state on screen: the form inputs and the results of a creation or of a draft.
+     */
+    const showWorkingDraft = (draft: WorkingDraft) => {
+        const params = withLengthDefaults(draft.params);
+        setCreationName(params.creationName || '');
+        setCreationType(params.creationType);
+        setMainPrompt(params.mainPrompt);
+        setTitlePrompt(params.titlePrompt);
+        setDescriptionPrompt(params.descriptionPrompt);
+        setThumbnailPrompt(params.thumbnailPrompt);
+        setLengthUnit(params.lengthUnit);
+        setTargetLength(params.targetLength);
+        setLanguage(params.language);
+        setPassages(params.passages ?? []);
+        setCurrentSeriesId(params.seriesId ?? null);
+        setEpisodeNumber(params.episodeNumber ?? 1);
+        applyOutputs(draft.outputs);
+        setLengthTrail(draft.lengthTrail ?? null);
+        setCurrentCreationId(draft.creationId);
+    };
+
     const handleLoadCreation = (id: string) => {
-        const creationToLoad = history.find(c => c.id === id);
-        if (creationToLoad) {
-            setCreationName(creationToLoad.creationName || '');
-            setCreationType(creationToLoad.creationType);
-            setMainPrompt(creationToLoad.mainPrompt);
-            setTitlePrompt(creationToLoad.titlePrompt);
-            setDescriptionPrompt(creationToLoad.descriptionPrompt);
-            setThumbnailPrompt(creationToLoad.thumbnailPrompt);
-            setCharacterCount(creationToLoad.characterCount);
-            setLanguage(creationToLoad.language);
-            setGeneratedTitles(creationToLoad.titles);
-            setGeneratedDescription(creationToLoad.description);
-            setGeneratedTags(creationToLoad.tags);
-            setGeneratedThumbnailPrompt(creationToLoad.thumbnailPrompt);
-            setGeneratedContent(creationToLoad.content);
-            setGeneratedCta(creationToLoad.cta);
-            setCurrentCreationId(creationToLoad.id);
+        const found = history.find(c => c.id === id);
+        if (found) {
+            flushAutosave();
+            showWorkingDraft({ creationId: found.id, params: found.params, outputs: found.outputs, lengthTrail: found.lengthTrail });
             setError(null);
             setWarning(null);
+            setFieldErrors({});
             setIsHistoryOpen(false);
         }
     };
 
+    /**
+     * Merges an imported backup into the history. Pending edits are saved first, so they
+     * take part in the merge, and the open creation is shown again if the backup replaced it.
+     */
+    const handleImportHistory = (backup: ParsedHistoryBackup, strategy: ImportConflictStrategy): HistoryMergeResult => {
+        const draft = pendingDraftRef.current;
+        flushAutosave();
+        const current: Creation[] = draft ? applyDraftToHistory(history, draft) : history;
+        const result = mergeHistory(current, seriesList, backup, strategy);
+        setHistory(result.history);
+        setSeriesList(result.seriesList);
+        const open = result.history.find(c => c.id === currentCreationId);
+        if (open && !current.includes(open)) {
+            showWorkingDraft({ creationId: open.id, params: open.params, outputs: open.outputs, lengthTrail: open.lengthTrail });
+        }
+        return result;
+    };
+
     const handleDeleteCreation = (id: string) => {
         if (window.confirm("Tem certeza que deseja apagar esta criação?")) {
             setHistory(prev => prev.filter(c => c.id !== id));
@@ -321,92 +961,160 @@ const App: React.FC = () => {
         }
     };
 
-    const handleRegenerate = useCallback(async () => {
-        if (!apiKey) {
-            setError("Por favor, insira e salve sua chave de API do Gemini para regenerar.");
-            setRegenModalField(null);
+    const regenerateField = useCallback(async (fieldToRegen: RegenerationField, modification: string, bypassCache: boolean) => {
+        if (isApiKeyMissing) {
+            setError("Por favor, configure e salve o provedor de IA para regenerar.");
             return;
         }
-        if (!regenModalField) return;
         
-        const fieldToRegen = regenModalField;
         setRegeneratingField(fieldToRegen);
-        setRegenModalField(null);
+        setFieldErrors(prev => ({ ...prev, [fieldToRegen]: undefined }));
         setError(null);
         setWarning(null);
+        setCacheHits(0);
         setGenerationStatus(`Regenerando ${fieldToRegen}...`);
+        const stopController = new AbortController();
+        stopControllerRef.current = stopController;
+        const cancelController = new AbortController();
+        cancelControllerRef.current = cancelController;
+        const runUsage: UsageRecord[] = [];
+        const requestOptions = {
+            onStatusUpdate: setGenerationStatus,
+            signal: cancelController.signal,
+            retryPolicies,
+            promptTemplates,
+            doctrinalProfile,
+            series: currentSeries,
+            cache: cacheSettings,
+            bypassCache,
+            onCacheHit: handleCacheHit,
+            onUsage: (record: UsageRecord) => { runUsage.push(record); handleUsage(record); },
+        };
 
         try {
             const params = getGenerationParams();
             let contentForThumbnail = generatedContent;
+            const saveRegenerated = (changes: Partial<AllContentResponse>) => {
+                applyOutputs(changes);
+                const revisions = (Object.keys(changes) as RevisionField[]).map(field => createRevision(field, changes[field], RevisionSource.Regenerated, { modification }));
+                recordRevisions(currentCreationId, revisions, changes);
+            };
 
             switch (fieldToRegen) {
                 case 'titles':
-                    setGeneratedTitles(await geminiService.generateTitles(apiKey, params, regenModificationPrompt, setGenerationStatus));
+                    saveRegenerated({ titles: await geminiService.generateTitles(providerSettings, params, generatedContent, modification, requestOptions) });
                     break;
                 case 'description':
-                    setGeneratedDescription(await geminiService.generateDescription(apiKey, params, regenModificationPrompt, setGenerationStatus));
+                    saveRegenerated({ description: await geminiService.generateDescription(providerSettings, params, generatedContent, modification, requestOptions) });
                     break;
                 case 'tags':
-                    setGeneratedTags(await geminiService.generateTags(apiKey, params, regenModificationPrompt, setGenerationStatus));
+                    saveRegenerated({ tags: await geminiService.generateTags(providerSettings, params, generatedContent, modification, requestOptions) });
                     break;
                 case 'thumbnail':
-                    setGeneratedThumbnailPrompt(await geminiService.generateThumbnailPrompt(apiKey, params, contentForThumbnail, regenModificationPrompt, setGenerationStatus));
+                    saveRegenerated({ thumbnailPrompt: await geminiService.generateThumbnailPrompt(providerSettings, params, contentForThumbnail, modification, requestOptions) });
                     break;
                 case 'content':
                     {
-                        let newContent = await geminiService.generateContent(apiKey, params, regenModificationPrompt, setGenerationStatus);
-                        
-                        const minChars = Math.max(100, params.characterCount - 500);
-                        const maxChars = params.characterCount + 500;
-                        const MAX_REFINEMENT_ATTEMPTS = 2;
-
-                        let refinementAttempts = 0;
-                        while (
-                            (newContent.length < minChars || newContent.length > maxChars) &&
-                            refinementAttempts < MAX_REFINEMENT_ATTEMPTS
-                        ) {
-                            refinementAttempts++;
-                            const isTooLong = newContent.length > maxChars;
-                            setGenerationStatus(`Tentativa ${refinementAttempts}/${MAX_REFINEMENT_ATTEMPTS}: Conteúdo regenerado fora do alvo. ${isTooLong ? 'Resumindo' : 'Expandindo'}...`);
-                            newContent = await geminiService.refineTextLength(apiKey, params, newContent, setGenerationStatus);
-                        }
+                        const writeContent = geminiService.isLongForm(params) ? geminiService.generateLongFormContent : geminiService.generateContent;
+                        const newContent = await writeContent(providerSettings, params, modification, {
+                            ...requestOptions,
+                            onContentChunk: handleContentChunk,
+                            stopSignal: stopController.signal,
+                        });
+                        setIsStreamingContent(false);
+                        const wasStopped = stopController.signal.aborted;
+                        const fitted = await fitContentLength(providerSettings, params, newContent, { wasStopped, isRegeneration: true }, requestOptions);
+                        setError(fitted.notice?.kind === 'error' ? fitted.notice.message : null);
+                        setWarning(fitted.notice?.kind === 'warning' ? fitted.notice.message : null);
 
-                        const finalContentLen = newContent.length;
-                        setError(null);
-                        setWarning(null);
-
-                        if (finalContentLen < minChars || finalContentLen > maxChars) {
-                            if (finalContentLen > maxChars) {
-                                const originalLength = finalContentLen;
-                                newContent = smartTruncate(newContent, maxChars);
-                                setWarning(`A IA não conseguiu ajustar o texto em ${MAX_REFINEMENT_ATTEMPTS} tentativas. O resultado (${originalLength} caracteres) foi ajustado automaticamente.`);
-                            } else {
-                                setError(`A IA não conseguiu refinar o conteúdo para a faixa de caracteres desejada (${minChars}-${maxChars}). O resultado final tem ${finalContentLen} caracteres.`);
-                            }
-                        } else {
-                             if (refinementAttempts > 0) {
-                                setWarning(`O conteúdo regenerado foi refinado pela IA em ${refinementAttempts} tentativa(s) para se ajustar ao tamanho solicitado.`);
-                            }
+                        setGeneratedContent(fitted.content);
+                        setLengthTrail(fitted.trail);
+                        recordRevisions(currentCreationId, getContentRevisions(fitted.trail, RevisionSource.Regenerated, modification), { content: fitted.content }, fitted.trail);
+                        contentForThumbnail = fitted.content;
+                        if (!wasStopped) {
+                            await updateSeriesMemory(params, fitted.content, generatedTags, requestOptions);
                         }
-                        
-                        setGeneratedContent(newContent);
-                        contentForThumbnail = newContent;
                     }
                     break;
                 case 'cta':
-                    setGeneratedCta(await geminiService.generateCta(apiKey, params, regenModificationPrompt, setGenerationStatus));
+                    saveRegenerated({ cta: await geminiService.generateCta(providerSettings, params, generatedContent, modification, requestOptions) });
                     break;
             }
+            appendCreationUsage(currentCreationId, runUsage);
         } catch (err) {
-             console.error(err);
-            setError(err instanceof Error ? `Erro ao regenerar: ${err.message}` : "Ocorreu um erro desconhecido.");
+            // Streaming may already have replaced the content on screen.
+            setGeneratedContent(generatedContent);
+            if (err instanceof GenerationCancelledError) {
+                setWarning("A regeneração foi cancelada. O resultado anterior foi mantido.");
+            } else {
+                console.error(err);
+                setFieldErrors(prev => ({ ...prev, [fieldToRegen]: err instanceof Error ? `Erro ao regenerar: ${err.message}` : "Ocorreu um erro desconhecido." }));
+            }
         } finally {
+            stopControllerRef.current = null;
+            cancelControllerRef.current = null;
+            setIsStreamingContent(false);
             setRegeneratingField(null);
-            setRegenModificationPrompt('');
             setGenerationStatus(null);
+            setCacheSize(getResponseCacheSize());
         }
-    }, [regenModalField, getGenerationParams, regenModificationPrompt, generatedContent, apiKey]);
+    }, [getGenerationParams, generatedContent, generatedTags, providerSettings, isApiKeyMissing, handleContentChunk, retryPolicies, promptTemplates, doctrinalProfile, currentSeries, cacheSettings, handleCacheHit, handleUsage, appendCreationUsage, applyOutputs, recordRevisions, updateSeriesMemory, currentCreationId]);
+
+    /**
+     * Asks the AI to review the content against the doctrinal profile before publishing.
+     */
+    const handleDoctrinalReview = async () => {
+        if (isApiKeyMissing) {
+            setError(`Configure o provedor ${providerInfo[providerSettings.provider].label} antes de continuar.`);
+            return;
+        }
+        setIsReviewingDoctrine(true);
+        setDoctrinalReviewError(null);
+        const runUsage: UsageRecord[] = [];
+        try {
+            const flags = await geminiService.reviewDoctrine(providerSettings, getGenerationParams(), generatedContent, {
+                retryPolicies,
+                promptTemplates,
+                doctrinalProfile,
+                cache: cacheSettings,
+                onCacheHit: handleCacheHit,
+                onUsage: (record) => { runUsage.push(record); handleUsage(record); },
+            });
+            setDoctrinalReview(flags);
+            appendCreationUsage(currentCreationId, runUsage);
+        } catch (err) {
+            console.error(err);
+            setDoctrinalReviewError(err instanceof Error ? `Erro na revisão doutrinária: ${err.message}` : "Ocorreu um erro desconhecido.");
+        } finally {
+            setIsReviewingDoctrine(false);
+            setCacheSize(getResponseCacheSize());
+        }
+    };
+
+    /**
+     * Saves a manual edit of a field as a revision once the user leaves the text box.
+     */
+    const handleEditEnd = (field: RevisionField) => {
+        const value = currentOutputs[field];
+        recordRevisions(currentCreationId, [createRevision(field, value, RevisionSource.Edited)], { [field]: value });
+    };
+
+    /**
+     * Puts back the value of a field from an older revision, recording it as a new revision.
+     */
+    const handleRestoreRevision = (revision: Revision) => {
+        const changes = { [revision.field]: revision.value } as Partial<AllContentResponse>;
+        applyOutputs(changes);
+        recordRevisions(currentCreationId, [createRevision(revision.field, revision.value, RevisionSource.Restored, { restoredFrom: revision.id })], changes);
+    };
+
+    const handleRegenerate = () => {
+        if (!regenModalField) return;
+        regenerateField(regenModalField, regenModificationPrompt, regenBypassCache);
+        setRegenModalField(null);
+        setRegenModificationPrompt('');
+        setRegenBypassCache(false);
+    };
 
     const handleCopy = useCallback((text: string) => {
         navigator.clipboard.writeText(text);
@@ -414,21 +1122,51 @@ const App: React.FC = () => {
         setTimeout(() => setCopiedField(null), 2000);
     }, []);
 
+    const currentOutputs: AllContentResponse = {
+        content: generatedContent,
+        titles: generatedTitles,
+        description: generatedDescription,
+        tags: generatedTags,
+        cta: generatedCta,
+        thumbnailPrompt: generatedThumbnailPrompt,
+    };
+    const currentRevisions = history.find(c => c.id === currentCreationId)?.revisions;
     const isLoading = isGenerating || !!regeneratingField || isEnhancing;
+
+    // Autosave the inputs and results once they stop changing; a generation saves its own results
+    useEffect(() => {
+        if (isLoading) {
+            flushAutosave();
+            return;
+        }
+        const draft: WorkingDraft = {
+            creationId: currentCreationId,
+            params: getGenerationParams(),
+            outputs: { content: generatedContent, titles: generatedTitles, description: generatedDescription, tags: generatedTags, cta: generatedCta, thumbnailPrompt: generatedThumbnailPrompt },
+            lengthTrail: lengthTrail ?? undefined,
+        };
+        const creation = historyRef.current.find(c => c.id === currentCreationId);
+        pendingDraftRef.current = draft;
+        setHasPendingChanges(!creation || hasUnsavedChanges(creation, draft));
+        const timer = setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [isLoading, currentCreationId, getGenerationParams, generatedContent, generatedTitles, generatedDescription, generatedTags, generatedCta, generatedThumbnailPrompt, lengthTrail, flushAutosave]);
     const actionsDisabled = isLoading || isApiKeyMissing;
+    const creationTypeDefinition = getCreationTypeDefinition(creationType);
+    const CreationTypeIcon = creationTypeIcons[creationTypeDefinition.icon];
+
+    const fieldLabels: Record<RegenerationField, string> = {
+        titles: 'Títulos',
+        description: 'Descrição',
+        tags: 'Tags de SEO',
+        thumbnail: 'Prompt para Thumbnail',
+        content: creationTypeDefinition.label,
+        cta: 'Chamada para Ação (CTA)'
+    };
 
     const renderRegenerationModal = () => {
         if (!regenModalField) return null;
 
-        const fieldLabels: Record<RegenerationField, string> = {
-            titles: 'Títulos',
-            description: 'Descrição',
-            tags: 'Tags de SEO',
-            thumbnail: 'Prompt para Thumbnail',
-            content: creationType === CreationType.Story ? 'História' : 'Oração',
-            cta: 'Chamada para Ação (CTA)'
-        };
-
         return (
             <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={() => setRegenModalField(null)}>
                 <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 w-full max-w-lg" onClick={(e) => e.stopPropagation()}>
@@ -440,6 +1178,17 @@ const App: React.FC = () => {
                         placeholder="Ex: Tente um tom mais dramático, foque no personagem X..."
                         rows={4}
                     />
+                    {cacheSettings.enabled && (
+                        <label className="flex items-center gap-2 text-sm text-gray-400 mt-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={regenBypassCache}
+                                onChange={(e) => setRegenBypassCache(e.target.checked)}
+                                className="accent-amber-500"
+                            />
+                            Ignorar o cache e gerar uma nova resposta
+                        </label>
+                    )}
                     <div className="flex justify-end gap-4 mt-4">
                         <button onClick={() => setRegenModalField(null)} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors">Cancelar</button>
                         <button onClick={handleRegenerate} className="py-2 px-4 bg-amber-500 hover:bg-amber-600 text-gray-900 font-bold rounded-lg transition-colors">Gerar</button>
@@ -451,8 +1200,8 @@ const App: React.FC = () => {
 
     const mainPromptLabel = (
         <div className="flex justify-between items-center">
-            <span>{`4. Ideia Principal para a ${creationType === CreationType.Story ? 'História' : 'Oração'}`}</span>
-            {creationType === CreationType.Story && (
+            <span>{`4. Ideia Principal (${creationTypeDefinition.label})`}</span>
+            {creationTypeDefinition.canEnhance && (
                 <button 
                     onClick={handleEnhancePrompt} 
                     disabled={actionsDisabled}
@@ -466,14 +1215,49 @@ const App: React.FC = () => {
     );
     
     const totalTagChars = generatedTags.join(', ').length;
+    const isTitlesLoading = regeneratingField === 'titles' || (isGenerating && !generatedTitles.length && !fieldErrors.titles);
+    const todayKey = getDayKey(Date.now());
+    const todayUsage = usageLog.filter(record => getDayKey(record.timestamp) === todayKey);
+    const targetRange = getLengthRange(getGenerationParams());
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-200 font-sans">
             {renderRegenerationModal()}
+            <RevisionHistory
+                fieldLabel={revisionCard && fieldLabels[revisionCard]}
+                revisions={revisionCard ? getFieldRevisions(currentRevisions, regenerationRevisionFields[revisionCard]) : []}
+                onClose={() => setRevisionCard(null)}
+                onRestore={handleRestoreRevision}
+                disabled={isLoading}
+            />
+            <UsagePanel
+                isOpen={isUsagePanelOpen}
+                onClose={() => setIsUsagePanelOpen(false)}
+                sessionUsage={sessionUsage}
+                usageLog={usageLog}
+                priceTable={priceTable}
+                onPriceTableChange={handlePriceTableChange}
+            />
+            <PromptTemplateEditor
+                isOpen={isPromptEditorOpen}
+                onClose={() => setIsPromptEditorOpen(false)}
+                overrides={promptTemplates}
+                onOverridesChange={handlePromptTemplatesChange}
+                params={getGenerationParams()}
+                doctrinalProfile={doctrinalProfile}
+                series={currentSeries}
+            />
+            <DoctrinalProfileEditor
+                isOpen={isDoctrinalProfileOpen}
+                onClose={() => setIsDoctrinalProfileOpen(false)}
+                profile={doctrinalProfile}
+                onProfileChange={handleDoctrinalProfileChange}
+            />
              <HistorySidebar 
                 isOpen={isHistoryOpen}
                 onClose={() => setIsHistoryOpen(false)}
                 history={history}
+                seriesList={seriesList}
                 currentCreationId={currentCreationId}
                 onLoad={handleLoadCreation}
                 onDelete={handleDeleteCreation}
@@ -481,40 +1265,159 @@ const App: React.FC = () => {
                     handleNewProject();
                     setIsHistoryOpen(false);
                 }}
+                priceTable={priceTable}
+                sessionUsage={sessionUsage}
+                todayUsage={todayUsage}
+                onOpenUsage={() => setIsUsagePanelOpen(true)}
+                onOpenBackup={() => setIsBackupOpen(true)}
+            />
+            <HistoryBackupPanel
+                isOpen={isBackupOpen}
+                onClose={() => setIsBackupOpen(false)}
+                history={history}
+                seriesList={seriesList}
+                onImport={handleImportHistory}
             />
             <div className={`relative transition-all duration-300 ease-in-out ${isHistoryOpen ? 'lg:pl-80' : 'pl-0'}`}>
-                <Header onToggleHistory={() => setIsHistoryOpen(prev => !prev)} />
+                <Header onToggleHistory={() => setIsHistoryOpen(prev => !prev)} onOpenUsage={() => setIsUsagePanelOpen(true)} onOpenPromptTemplates={() => setIsPromptEditorOpen(true)} onOpenDoctrinalProfile={() => setIsDoctrinalProfileOpen(true)} />
                 <main className="container mx-auto p-4 lg:p-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
                     {/* Controls Column */}
                     <div className="lg:col-span-1 flex flex-col gap-6 bg-gray-800 p-6 rounded-lg shadow-2xl border border-gray-700 h-fit">
                         <h2 className="text-2xl font-bold text-amber-400 border-b-2 border-amber-500 pb-2">Configurações de Geração</h2>
                         
                         <div>
-                            <label htmlFor="api-key-input" className="block text-lg font-semibold mb-2 text-gray-300">
-                                1. Sua Chave de API do Gemini <span className="text-red-400">*</span>
+                            <label htmlFor="provider-select" className="block text-lg font-semibold mb-2 text-gray-300">
+                                1. Provedor de IA e Chave de API <span className="text-red-400">*</span>
                             </label>
+                            <select
+                                id="provider-select"
+                                value={providerInput.provider}
+                                onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 mb-2 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition"
+                            >
+                                {Object.values(LlmProviderId)
+                                    .filter(id => id !== LlmProviderId.Mock || developerMode || providerInput.provider === id)
+                                    .map(id => (
+                                        <option key={id} value={id}>{providerInfo[id].label}</option>
+                                    ))}
+                            </select>
+                            {providerInput.provider === LlmProviderId.Mock && (
+                                <select
+                                    aria-label="Roteiro da simulação"
+                                    value={mockScriptPresets.findIndex(preset => preset.script.join() === (providerInput.mockScript ?? [MockScenario.Normal]).join())}
+                                    onChange={(e) => setProviderInput(prev => ({ ...prev, mockScript: mockScriptPresets[Number(e.target.value)].script }))}
+                                    className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 mb-2 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition"
+                                >
+                                    {mockScriptPresets.map((preset, index) => (
+                                        <option key={preset.label} value={index}>Simulação: {preset.label}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {providerInfo[providerInput.provider].defaultBaseUrl && (
+                                <input
+                                    type="text"
+                                    value={providerInput.baseUrl}
+                                    onChange={(e) => setProviderInput(prev => ({ ...prev, baseUrl: e.target.value }))}
+                                    placeholder="Endereço do servidor (ex: http://localhost:8080/v1)"
+                                    className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 mb-2 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition"
+                                />
+                            )}
+                            <input
+                                type="text"
+                                value={providerInput.model}
+                                onChange={(e) => setProviderInput(prev => ({ ...prev, model: e.target.value }))}
+                                placeholder="Modelo"
+                                aria-label="Modelo"
+                                className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 mb-2 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition"
+                            />
                             <div className="flex items-center gap-2">
                                 <input
                                     id="api-key-input"
                                     type="password"
-                                    value={apiKeyInputValue}
+                                    value={providerInput.apiKey}
                                     onChange={(e) => {
-                                        setApiKeyInputValue(e.target.value);
+                                        setProviderInput(prev => ({ ...prev, apiKey: e.target.value }));
                                         setError(null);
                                     }}
-                                    placeholder="Cole sua chave de API aqui"
+                                    placeholder={providerInfo[providerInput.provider].requiresApiKey ? "Cole sua chave de API aqui" : "Chave de API (opcional)"}
                                     className="flex-grow w-full bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition"
                                 />
-                                <button onClick={handleApiKeySave} title="Salvar Chave" className="p-3 bg-green-600 hover:bg-green-700 rounded-lg transition-colors flex-shrink-0">
+                                <button onClick={handleApiKeySave} title="Salvar Configurações" className="p-3 bg-green-600 hover:bg-green-700 rounded-lg transition-colors flex-shrink-0">
                                     <CheckIcon className="h-6 w-6 text-white"/>
                                 </button>
-                                {apiKey && (
-                                    <button onClick={handleApiKeyRemove} title="Remover Chave" className="p-3 bg-red-600 hover:bg-red-700 rounded-lg transition-colors flex-shrink-0">
+                                {!isApiKeyMissing && (
+                                    <button onClick={handleApiKeyRemove} title="Remover Configurações" className="p-3 bg-red-600 hover:bg-red-700 rounded-lg transition-colors flex-shrink-0">
                                         <XCircleIcon className="h-6 w-6 text-white"/>
                                     </button>
                                 )}
                             </div>
-                            <p className="text-xs text-gray-500 mt-1">Sua chave é salva localmente no seu navegador.</p>
+                            <p className="text-xs text-gray-500 mt-1">Suas configurações são salvas localmente no seu navegador.</p>
+                            <label className="flex items-center gap-2 text-xs text-gray-500 mt-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={developerMode}
+                                    onChange={(e) => handleDeveloperModeChange(e.target.checked)}
+                                    className="accent-amber-500"
+                                />
+                                Modo desenvolvedor (habilita o provedor simulado, sem rede e sem custo)
+                            </label>
+                            {developerMode && (
+                                <div className="mt-2 grid grid-cols-2 gap-2">
+                                    {configurableRetryKinds.map(({ kind, label }) => (
+                                        <label key={kind} className="text-xs text-gray-500">
+                                            Tentativas extras: {label}
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                max="10"
+                                                value={retryPolicies[kind].maxRetries}
+                                                onChange={(e) => handleMaxRetriesChange(kind, Number(e.target.value))}
+                                                className="w-full bg-gray-700 border border-gray-600 rounded-md p-1 mt-1 text-gray-200"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <label className="flex items-center gap-2 text-xs text-gray-500 mt-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={cacheSettings.enabled}
+                                    onChange={(e) => handleCacheSettingsChange({ ...cacheSettings, enabled: e.target.checked })}
+                                    className="accent-amber-500"
+                                />
+                                Reutilizar respostas de pedidos idênticos (cache local, sem custo)
+                            </label>
+                            {cacheSettings.enabled && (
+                                <div className="mt-2 grid grid-cols-3 gap-2 items-end">
+                                    <label className="text-xs text-gray-500">
+                                        Validade (horas)
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={cacheSettings.ttlHours}
+                                            onChange={(e) => handleCacheSettingsChange({ ...cacheSettings, ttlHours: Math.max(1, Number(e.target.value)) })}
+                                            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1 mt-1 text-gray-200"
+                                        />
+                                    </label>
+                                    <label className="text-xs text-gray-500">
+                                        Máx. de respostas
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={cacheSettings.maxEntries}
+                                            onChange={(e) => handleCacheSettingsChange({ ...cacheSettings, maxEntries: Math.max(1, Number(e.target.value)) })}
+                                            className="w-full bg-gray-700 border border-gray-600 rounded-md p-1 mt-1 text-gray-200"
+                                        />
+                                    </label>
+                                    <button
+                                        onClick={handleClearCache}
+                                        disabled={cacheSize === 0}
+                                        className="text-xs py-1 px-2 bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                                    >
+                                        Limpar ({cacheSize})
+                                    </button>
+                                </div>
+                            )}
                         </div>
 
                         <fieldset disabled={isApiKeyMissing} className={`contents ${isApiKeyMissing ? 'opacity-50' : ''}`}>
@@ -530,17 +1433,32 @@ const App: React.FC = () => {
                                     placeholder="Ex: A Parábola do Filho Pródigo"
                                     className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed"
                                 />
+                                <div className="mt-3">
+                                    <label className="block text-sm font-semibold mb-2 text-gray-300">Série (opcional)</label>
+                                    <SeriesPicker
+                                        seriesList={seriesList}
+                                        seriesId={currentSeriesId}
+                                        episodeNumber={episodeNumber}
+                                        onSelect={handleSeriesSelect}
+                                        onEpisodeNumberChange={setEpisodeNumber}
+                                        onCreate={handleSeriesCreate}
+                                        onSeriesChange={handleSeriesChange}
+                                        onDelete={handleDeleteSeries}
+                                        disabled={isLoading}
+                                    />
+                                </div>
                             </div>
 
                             <div>
                                 <label className="block text-lg font-semibold mb-2 text-gray-300">3. Escolha o Tipo de Criação</label>
                                 <Selector<CreationType>
-                                    options={[
-                                        { value: CreationType.Story, label: 'História Bíblica', icon: <BookOpenIcon /> },
-                                        { value: CreationType.Prayer, label: 'Oração', icon: <PrayingHandsIcon /> },
-                                    ]}
+                                    options={Object.values(CreationType).map(type => {
+                                        const { label, icon } = creationTypes[type];
+                                        const Icon = creationTypeIcons[icon];
+                                        return { value: type, label, icon: <Icon /> };
+                                    })}
                                     selectedValue={creationType}
-                                    onChange={setCreationType}
+                                    onChange={handleCreationTypeChange}
                                 />
                             </div>
 
@@ -549,10 +1467,14 @@ const App: React.FC = () => {
                                     label={mainPromptLabel}
                                     value={mainPrompt}
                                     onChange={(e) => setMainPrompt(e.target.value)}
-                                    placeholder="Ex: A parábola do filho pródigo, mas contada pela perspectiva do irmão mais velho."
+                                    placeholder={creationTypeDefinition.ideaPlaceholder}
                                     rows={4}
                                     required
                                 />
+                                <div className="mt-3">
+                                    <label className="block text-sm font-semibold mb-2 text-gray-300">Passagens bíblicas (opcional)</label>
+                                    <PassagePicker passages={passages} language={language} onChange={setPassages} disabled={isLoading} />
+                                </div>
                             </div>
 
                             <div>
@@ -560,7 +1482,7 @@ const App: React.FC = () => {
                                 <select
                                     id="language-select"
                                     value={language}
-                                    onChange={(e) => setLanguage(e.target.value)}
+                                    onChange={(e) => handleLanguageChange(e.target.value)}
                                     className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed"
                                 >
                                     {supportedLanguages.map(lang => (
@@ -570,16 +1492,75 @@ const App: React.FC = () => {
                             </div>
 
                             <div>
-                                <label htmlFor="char-count" className="block text-lg font-semibold mb-2 text-gray-300">6. Contagem de Caracteres</label>
-                                <input
-                                    id="char-count"
-                                    type="number"
-                                    value={characterCount}
-                                    onChange={(e) => setCharacterCount(Number(e.target.value))}
-                                    className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed"
-                                    min="100"
-                                    step="50"
-                                />
+                                <label htmlFor="target-length" className="block text-lg font-semibold mb-2 text-gray-300">6. Tamanho do Conteúdo</label>
+                                <div className="flex gap-2">
+                                    <input
+                                        id="target-length"
+                                        type="number"
+                                        value={targetLength}
+                                        onChange={(e) => setTargetLength(Number(e.target.value))}
+                                        className="w-full bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed"
+                                        min={lengthUnitInfo[lengthUnit].minTarget}
+                                        step={lengthUnitInfo[lengthUnit].step}
+                                    />
+                                    <select
+                                        value={lengthUnit}
+                                        onChange={(e) => handleLengthUnitChange(e.target.value as LengthUnit)}
+                                        className="bg-gray-700 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed"
+                                        aria-label="Unidade do tamanho"
+                                    >
+                                        {Object.values(LengthUnit).map(unit => (
+                                            <option key={unit} value={unit}>{lengthUnitInfo[unit].label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {lengthUnit === LengthUnit.SpokenMinutes && (
+                                    <label className="flex items-center gap-2 text-sm text-gray-400 mt-2">
+                                        Ritmo de narração ({language}):
+                                        <input
+                                            type="number"
+                                            min="1"
+                                            value={speakingWpm}
+                                            onChange={(e) => handleSpeakingWpmChange(Number(e.target.value))}
+                                            className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1"
+                                        />
+                                        palavras por minuto
+                                    </label>
+                                )}
+                                <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400 mt-2">
+                                    <label htmlFor="length-tolerance">Tolerância: ±</label>
+                                    <input
+                                        id="length-tolerance"
+                                        type="number"
+                                        min="0"
+                                        value={lengthPolicy.tolerance}
+                                        onChange={(e) => handleLengthPolicyChange({ ...lengthPolicy, tolerance: Math.max(0, Number(e.target.value)) })}
+                                        className="w-20 bg-gray-700 border border-gray-600 rounded-md p-1"
+                                    />
+                                    <select
+                                        value={lengthPolicy.toleranceKind}
+                                        onChange={(e) => handleLengthPolicyChange({ ...lengthPolicy, toleranceKind: e.target.value as ToleranceKind })}
+                                        className="bg-gray-700 border border-gray-600 rounded-md p-1"
+                                        aria-label="Tipo de tolerância"
+                                    >
+                                        <option value={ToleranceKind.Percent}>%</option>
+                                        <option value={ToleranceKind.Absolute}>{getUnitName(targetRange.unit)}</option>
+                                    </select>
+                                    <select
+                                        value={lengthPolicy.mode}
+                                        onChange={(e) => handleLengthPolicyChange({ ...lengthPolicy, mode: e.target.value as LengthMode })}
+                                        className="bg-gray-700 border border-gray-600 rounded-md p-1"
+                                        aria-label="Modo de controle do tamanho"
+                                    >
+                                        {Object.values(LengthMode).map(mode => (
+                                            <option key={mode} value={mode}>{lengthModeLabels[mode]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <p className="text-sm text-gray-400 mt-1">Faixa pedida à IA: {targetRange.min}–{targetRange.max} {getUnitName(targetRange.unit)}.</p>
+                                {geminiService.isLongForm(getGenerationParams()) && (
+                                    <p className="text-sm text-amber-300 mt-1">Texto longo: a história será escrita em seções a partir de um roteiro, com uma revisão final das transições.</p>
+                                )}
                             </div>
 
                             <div className="border-t border-gray-600 pt-4">
@@ -592,10 +1573,23 @@ const App: React.FC = () => {
 
                         {isApiKeyMissing && (
                             <div className="bg-red-900/50 border border-red-500 text-red-300 p-3 rounded-lg text-center">
-                                Por favor, salve sua chave de API do Gemini para habilitar a geração de conteúdo.
+                                Por favor, configure e salve o provedor de IA para habilitar a geração de conteúdo.
                             </div>
                         )}
 
+                        <label className="text-sm text-gray-400">
+                            Estratégia de geração
+                            <select
+                                value={generationStrategy}
+                                onChange={(e) => handleGenerationStrategyChange(e.target.value as GenerationStrategy)}
+                                disabled={isLoading}
+                                className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mt-1 text-gray-200 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition"
+                            >
+                                <option value={GenerationStrategy.Single}>Pacote único (uma chamada para tudo)</option>
+                                <option value={GenerationStrategy.Parallel}>Por campo (texto primeiro, demais campos em paralelo)</option>
+                            </select>
+                        </label>
+
                         <div className="flex gap-2">
                             <button onClick={handleGenerateAll} disabled={actionsDisabled} className="flex-grow bg-amber-500 hover:bg-amber-600 text-gray-900 font-bold py-3 px-4 rounded-lg transition-transform transform hover:scale-105 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2 text-lg">
                                 {isLoading ? <LoadingSpinner /> : 'Gerar Conteúdo'}
@@ -605,8 +1599,28 @@ const App: React.FC = () => {
                             </button>
                         </div>
                         
-                        {isLoading && generationStatus && (
-                            <p className="text-amber-300 mt-2 text-center animate-pulse">{generationStatus}</p>
+                        <p className={`text-xs text-center -mt-4 ${hasPendingChanges ? 'text-yellow-400' : 'text-gray-500'}`} aria-live="polite">
+                            {hasPendingChanges
+                                ? 'Alterações não salvas…'
+                                : currentCreationId ? 'Todas as alterações foram salvas no histórico.' : 'Rascunho salvo neste navegador.'}
+                        </p>
+                        
+                        {isLoading && (
+                            <div className="flex items-center justify-center gap-3 mt-2">
+                                {generationStatus && <p className="text-amber-300 text-center animate-pulse">{generationStatus}</p>}
+                                <button
+                                    onClick={handleCancel}
+                                    className="flex-shrink-0 text-sm py-1 px-3 bg-gray-600 hover:bg-gray-500 text-white rounded-lg transition-colors"
+                                    title="Cancelar e manter os resultados anteriores"
+                                >
+                                    Cancelar
+                                </button>
+                            </div>
+                        )}
+                        {cacheHits > 0 && !isLoading && (
+                            <p className="text-emerald-400 text-sm mt-2 text-center">
+                                {cacheHits} resposta(s) reutilizada(s) do cache local, sem custo.
+                            </p>
                         )}
                         {warning && !generationStatus && <p className="text-yellow-400 mt-2 text-center">{warning}</p>}
                         {error && <p className="text-red-400 mt-2 text-center">{error}</p>}
@@ -621,7 +1635,7 @@ const App: React.FC = () => {
                                         <span className="h-6 w-6 text-amber-400 mr-3"><PencilIcon /></span>
                                         <h3 className="text-xl font-semibold text-amber-400">Títulos Sugeridos</h3>
                                     </div>
-                                    { !(regeneratingField === 'titles' || (isGenerating && !generatedTitles.length)) && generatedTitles.length > 0 && (
+                                    { !isTitlesLoading && generatedTitles.length > 0 && (
                                         <div className="flex items-center gap-3">
                                             <button 
                                                 onClick={() => setRegenModalField('titles')} 
@@ -631,11 +1645,32 @@ const App: React.FC = () => {
                                             >
                                                 <RefreshIcon className="h-5 w-5" />
                                             </button>
+                                            {currentCreationId && (
+                                                <button 
+                                                    onClick={() => setRevisionCard('titles')} 
+                                                    className="text-gray-400 hover:text-white transition-colors" 
+                                                    title="Histórico de versões"
+                                                >
+                                                    <HistoryIcon className="h-5 w-5" />
+                                                </button>
+                                            )}
                                         </div>
                                     )}
                                 </div>
+                                {fieldErrors.titles && !isTitlesLoading && (
+                                    <div className="flex items-center justify-between gap-3 bg-red-900/40 border border-red-700 text-red-300 text-sm p-2 rounded-md mb-3">
+                                        <span>{fieldErrors.titles}</span>
+                                        <button
+                                            onClick={() => regenerateField('titles', '', false)}
+                                            disabled={actionsDisabled}
+                                            className="flex-shrink-0 py-1 px-3 bg-red-700 hover:bg-red-600 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                                        >
+                                            Tentar novamente
+                                        </button>
+                                    </div>
+                                )}
                                 <div className="flex-grow">
-                                    {(regeneratingField === 'titles' || (isGenerating && !generatedTitles.length)) ? (
+                                    {isTitlesLoading ? (
                                         <div className="flex items-center justify-center h-full min-h-[150px]">
                                             <LoadingSpinner />
                                         </div>
@@ -666,7 +1701,7 @@ const App: React.FC = () => {
                             <ResultCard 
                                 title="Descrição" 
                                 icon={<DocumentTextIcon />} 
-                                isLoading={regeneratingField === 'description' || (isGenerating && !generatedDescription)} 
+                                isLoading={regeneratingField === 'description' || (isGenerating && !generatedDescription && !fieldErrors.description)} 
                                 onRegenerate={() => setRegenModalField('description')} 
                                 onCopy={() => handleCopy(generatedDescription)} 
                                 isCopied={copiedField === generatedDescription} 
@@ -675,15 +1710,19 @@ const App: React.FC = () => {
                                 isEditable={true}
                                 value={generatedDescription}
                                 onChange={setGeneratedDescription}
+                                onEditEnd={() => handleEditEnd('description')}
+                                onShowRevisions={currentCreationId ? () => setRevisionCard('description') : undefined}
                                 textareaHeight="150px"
+                                error={fieldErrors.description}
+                                onRetry={() => regenerateField('description', '', false)}
                             />
                         </div>
 
                         <ResultCard 
-                            title={creationType === CreationType.Story ? 'História Bíblica' : 'Oração'} 
-                            icon={creationType === CreationType.Story ? <BookOpenIcon /> : <PrayingHandsIcon />} 
-                            isLoading={regeneratingField === 'content' || (isGenerating && !generatedContent)} 
-                            footerText={generatedContentCharCount > 0 ? `${generatedContentCharCount} caracteres` : ''} 
+                            title={creationTypeDefinition.label} 
+                            icon={<CreationTypeIcon />} 
+                            isLoading={(regeneratingField === 'content' && !isStreamingContent) || (isGenerating && !generatedContent)} 
+                            footerText={generatedContent ? `${describeLength(generatedContent, getGenerationParams())} (alvo: ${targetRange.min}–${targetRange.max} ${getUnitName(targetRange.unit)})` : ''} 
                             onRegenerate={() => setRegenModalField('content')} 
                             onCopy={() => handleCopy(generatedContent)} 
                             isCopied={copiedField === generatedContent} 
@@ -692,13 +1731,36 @@ const App: React.FC = () => {
                             isEditable={true}
                             value={generatedContent}
                             onChange={setGeneratedContent}
+                            onEditEnd={() => handleEditEnd('content')}
+                            onShowRevisions={currentCreationId ? () => setRevisionCard('content') : undefined}
                             textareaHeight="400px"
-                        />
+                            isStreaming={isStreamingContent}
+                            onStop={handleStopStreaming}
+                            error={fieldErrors.content}
+                            onRetry={() => regenerateField('content', '', false)}
+                        >
+                            {lengthTrail && (
+                                <LengthTrailPicker trail={lengthTrail} onSelect={handleSelectLengthCandidate} disabled={actionsDisabled} />
+                            )}
+                            {scriptureReport && (
+                                <ScriptureCheckPanel report={scriptureReport} content={generatedContent} />
+                            )}
+                            {hasDoctrinalProfile(doctrinalProfile) && (
+                                <DoctrinalReviewPanel
+                                    termFlags={findProfileConflicts(generatedContent, doctrinalProfile)}
+                                    reviewFlags={doctrinalReview}
+                                    onReview={handleDoctrinalReview}
+                                    isReviewing={isReviewingDoctrine}
+                                    reviewError={doctrinalReviewError}
+                                    disabled={actionsDisabled}
+                                />
+                            )}
+                        </ResultCard>
                         
                         <ResultCard 
                             title="Chamada para Ação (CTA)" 
                             icon={<MegaphoneIcon />} 
-                            isLoading={regeneratingField === 'cta' || (isGenerating && !generatedCta)} 
+                            isLoading={regeneratingField === 'cta' || (isGenerating && !generatedCta && !fieldErrors.cta)} 
                             onRegenerate={() => setRegenModalField('cta')} 
                             onCopy={() => handleCopy(generatedCta)} 
                             isCopied={copiedField === generatedCta} 
@@ -707,13 +1769,17 @@ const App: React.FC = () => {
                             isEditable={true}
                             value={generatedCta}
                             onChange={setGeneratedCta}
+                            onEditEnd={() => handleEditEnd('cta')}
+                            onShowRevisions={currentCreationId ? () => setRevisionCard('cta') : undefined}
+                            error={fieldErrors.cta}
+                            onRetry={() => regenerateField('cta', '', false)}
                         />
                         
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                             <ResultCard 
                                 title="Tags de SEO" 
                                 icon={<TagIcon />} 
-                                isLoading={regeneratingField === 'tags' || (isGenerating && !generatedTags.length)} 
+                                isLoading={regeneratingField === 'tags' || (isGenerating && !generatedTags.length && !fieldErrors.tags)} 
                                 onRegenerate={() => setRegenModalField('tags')} 
                                 onCopy={() => handleCopy(generatedTags.join(', '))} 
                                 isCopied={copiedField === generatedTags.join(', ')} 
@@ -723,12 +1789,16 @@ const App: React.FC = () => {
                                 isEditable={true}
                                 value={generatedTags.join(', ')}
                                 onChange={(val) => setGeneratedTags(val.split(',').map(t => t.trim()))}
+                                onEditEnd={() => handleEditEnd('tags')}
+                                onShowRevisions={currentCreationId ? () => setRevisionCard('tags') : undefined}
+                                error={fieldErrors.tags}
+                                onRetry={() => regenerateField('tags', '', false)}
                             />
 
                             <ResultCard 
                                 title="Prompt para Thumbnail" 
                                 icon={<ImageIcon />} 
-                                isLoading={regeneratingField === 'thumbnail' || (isGenerating && !generatedThumbnailPrompt)} 
+                                isLoading={regeneratingField === 'thumbnail' || (isGenerating && !generatedThumbnailPrompt && !fieldErrors.thumbnail)} 
                                 onRegenerate={() => setRegenModalField('thumbnail')} 
                                 onCopy={() => handleCopy(generatedThumbnailPrompt)} 
                                 isCopied={copiedField === generatedThumbnailPrompt} 
@@ -737,6 +1807,10 @@ const App: React.FC = () => {
                                 isEditable={true}
                                 value={generatedThumbnailPrompt}
                                 onChange={setGeneratedThumbnailPrompt}
+                                onEditEnd={() => handleEditEnd('thumbnailPrompt')}
+                                onShowRevisions={currentCreationId ? () => setRevisionCard('thumbnail') : undefined}
+                                error={fieldErrors.thumbnail}
+                                onRetry={() => regenerateField('thumbnail', '', false)}
                             />
                         </div>
                     </div>
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { DoctrinalProfile } from '../types';
+import { parseTermList } from '../services/doctrinalProfile';
+import { XMarkIcon } from './Icons';
+
+interface DoctrinalProfileEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    profile: DoctrinalProfile;
+    onProfileChange: (profile: DoctrinalProfile) => void;
+}
+
+interface ProfileDraft {
+    tradition: string;
+    preferredTranslation: string;
+    avoidTerms: string;
+    preferredTerms: string;
+    sensitiveTopics: string;
+}
+
+const toDraft = (profile: DoctrinalProfile): ProfileDraft => ({
+    tradition: profile.tradition,
+    preferredTranslation: profile.preferredTranslation,
+    avoidTerms: profile.avoidTerms.join(', '),
+    preferredTerms: profile.preferredTerms.join(', '),
+    sensitiveTopics: profile.sensitiveTopics.join(', '),
+});
+
+const inputClassName = 'w-full bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition';
+
+/**
+ * Edits the doctrinal profile applied to every prompt and to the review of the content.
+ */
+const DoctrinalProfileEditor: React.FC<DoctrinalProfileEditorProps> = ({ isOpen, onClose, profile, onProfileChange }) => {
+    const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(profile));
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(toDraft(profile));
+        }
+    }, [isOpen, profile]);
+
+    if (!isOpen) return null;
+
+    const setField = (field: keyof ProfileDraft) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+        setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+    const handleSave = () => {
+        onProfileChange({
+            tradition: draft.tradition.trim(),
+            preferredTranslation: draft.preferredTranslation.trim(),
+            avoidTerms: parseTermList(draft.avoidTerms),
+            preferredTerms: parseTermList(draft.preferredTerms),
+            sensitiveTopics: parseTermList(draft.sensitiveTopics),
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-amber-400">Perfil Doutrinário</h3>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar perfil doutrinário">
+                        <XMarkIcon className="h-6 w-6 text-gray-300"/>
+                    </button>
+                </div>
+                <p className="text-sm text-gray-400 mb-4">
+                    O perfil é enviado em todos os prompts e usado na revisão do conteúdo antes da publicação. Separe os itens das listas por vírgula ou por linha.
+                </p>
+
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="profile-tradition" className="block text-sm font-semibold mb-1 text-gray-300">Tradição ou denominação</label>
+                        <input id="profile-tradition" type="text" value={draft.tradition} onChange={setField('tradition')} placeholder="Ex: batista reformada" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="profile-translation" className="block text-sm font-semibold mb-1 text-gray-300">Tradução bíblica preferida</label>
+                        <input id="profile-translation" type="text" value={draft.preferredTranslation} onChange={setField('preferredTranslation')} placeholder="Ex: Almeida Revista e Atualizada" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="profile-avoid" className="block text-sm font-semibold mb-1 text-gray-300">Termos a evitar</label>
+                        <textarea id="profile-avoid" value={draft.avoidTerms} onChange={setField('avoidTerms')} rows={2} placeholder="Ex: sorte, destino, energia" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="profile-prefer" className="block text-sm font-semibold mb-1 text-gray-300">Termos preferidos</label>
+                        <textarea id="profile-prefer" value={draft.preferredTerms} onChange={setField('preferredTerms')} rows={2} placeholder="Ex: providência, graça, Senhor" className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="profile-topics" className="block text-sm font-semibold mb-1 text-gray-300">Temas que exigem cuidado</label>
+                        <textarea id="profile-topics" value={draft.sensitiveTopics} onChange={setField('sensitiveTopics')} rows={2} placeholder="Ex: batismo infantil, dons espirituais, escatologia" className={inputClassName} />
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-4 mt-6">
+                    <button onClick={onClose} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors">
+                        Cancelar
+                    </button>
+                    <button onClick={handleSave} className="py-2 px-4 bg-amber-500 hover:bg-amber-600 text-gray-900 font-bold rounded-lg transition-colors">
+                        Salvar
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DoctrinalProfileEditor;
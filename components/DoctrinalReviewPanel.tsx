@@ -0,0 +1,57 @@
+import React from 'react';
+import { DoctrinalFlag, DoctrinalFlagKind } from '../services/doctrinalProfile';
+
+interface DoctrinalReviewPanelProps {
+    /** Flags of the local scan for avoided terms and sensitive topics. */
+    termFlags: DoctrinalFlag[];
+    /** Flags of the AI review, or null before it runs for the current content. */
+    reviewFlags: DoctrinalFlag[] | null;
+    onReview: () => void;
+    isReviewing: boolean;
+    reviewError?: string | null;
+    disabled?: boolean;
+}
+
+const flagStyles: Record<DoctrinalFlagKind, string> = {
+    [DoctrinalFlagKind.AvoidedTerm]: 'bg-red-900/20 border-red-800 text-red-300',
+    [DoctrinalFlagKind.Conflict]: 'bg-red-900/20 border-red-800 text-red-300',
+    [DoctrinalFlagKind.SensitiveTopic]: 'bg-amber-900/20 border-amber-800 text-amber-300',
+};
+
+/**
+ * Lists the passages of the content that conflict with the doctrinal profile,
+ * from the local term scan and from the AI review requested before publishing.
+ */
+const DoctrinalReviewPanel: React.FC<DoctrinalReviewPanelProps> = ({ termFlags, reviewFlags, onReview, isReviewing, reviewError, disabled }) => {
+    const flags = [...termFlags, ...(reviewFlags ?? [])];
+
+    return (
+        <div className="text-sm border-t border-gray-700 pt-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+                <p className={flags.length > 0 ? 'text-red-300' : 'text-gray-400'}>
+                    {flags.length > 0
+                        ? `Perfil doutrinário: ${flags.length} trecho(s) para revisar.`
+                        : reviewFlags ? 'Perfil doutrinário: nenhum conflito encontrado.' : 'Perfil doutrinário: nenhum termo a evitar encontrado.'}
+                </p>
+                <button
+                    onClick={onReview}
+                    disabled={disabled || isReviewing}
+                    className="flex-shrink-0 py-1 px-3 bg-gray-600 hover:bg-gray-500 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                    title="Pedir à IA uma revisão do conteúdo à luz do perfil doutrinário"
+                >
+                    {isReviewing ? 'Revisando...' : reviewFlags ? 'Revisar novamente' : 'Revisar com IA'}
+                </button>
+            </div>
+            {reviewError && <p className="text-red-400">{reviewError}</p>}
+            {flags.map((flag, index) => (
+                <div key={`${flag.kind}-${flag.start ?? 'review'}-${index}`} className={`border rounded-md p-2 ${flagStyles[flag.kind]}`}>
+                    <p className="text-gray-400 font-serif">“{flag.excerpt}”</p>
+                    <p className="mt-1">{flag.message}</p>
+                    {flag.suggestion && <p className="mt-1 text-gray-300">Sugestão: {flag.suggestion}</p>}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default DoctrinalReviewPanel;
@@ -1,11 +1,14 @@
 import React from 'react';
-import { BookOpenIcon, HistoryIcon } from './Icons';
+import { BookOpenIcon, HistoryIcon, ChartBarIcon, AdjustmentsIcon, ShieldCheckIcon } from './Icons';
 
 interface HeaderProps {
     onToggleHistory: () => void;
+    onOpenUsage: () => void;
+    onOpenPromptTemplates: () => void;
+    onOpenDoctrinalProfile: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onToggleHistory }) => {
+const Header: React.FC<HeaderProps> = ({ onToggleHistory, onOpenUsage, onOpenPromptTemplates, onOpenDoctrinalProfile }) => {
     return (
         <header className="bg-gray-800 shadow-lg border-b-4 border-amber-500 sticky top-0 z-20">
             <div className="container mx-auto px-4 lg:px-8 py-4 flex items-center">
@@ -23,6 +26,30 @@ const Header: React.FC<HeaderProps> = ({ onToggleHistory }) => {
                         Keno Teólogo
                     </h1>
                 </div>
+                <button 
+                    onClick={onOpenDoctrinalProfile} 
+                    className="p-2 rounded-full hover:bg-gray-700 transition-colors ml-auto"
+                    title="Perfil Doutrinário"
+                    aria-label="Perfil Doutrinário"
+                >
+                    <ShieldCheckIcon className="h-8 w-8 text-amber-400"/>
+                </button>
+                <button 
+                    onClick={onOpenPromptTemplates} 
+                    className="p-2 rounded-full hover:bg-gray-700 transition-colors ml-2"
+                    title="Modelos de Prompt"
+                    aria-label="Modelos de Prompt"
+                >
+                    <AdjustmentsIcon className="h-8 w-8 text-amber-400"/>
+                </button>
+                <button 
+                    onClick={onOpenUsage} 
+                    className="p-2 rounded-full hover:bg-gray-700 transition-colors ml-2"
+                    title="Uso de Tokens e Custo"
+                    aria-label="Uso de Tokens e Custo"
+                >
+                    <ChartBarIcon className="h-8 w-8 text-amber-400"/>
+                </button>
             </div>
         </header>
     );
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import { Creation, Series } from '../types';
+import { HistoryMergeResult, ImportConflictStrategy, ParsedHistoryBackup, createHistoryBackup, downloadHistoryBackup, importConflictLabels, parseHistoryBackup } from '../services/historyBackup';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, XMarkIcon } from './Icons';
+
+interface HistoryBackupPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    history: Creation[];
+    seriesList: Series[];
+    /** Merges a backup into the history and tells what happened to its creations. */
+    onImport: (backup: ParsedHistoryBackup, strategy: ImportConflictStrategy) => HistoryMergeResult;
+}
+
+const buttonClassName = 'flex items-center justify-center gap-2 py-2 px-4 bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+/**
+ * Exports the history, or some of its creations, to a JSON file and imports such a file,
+ * merging it into the history.
+ */
+const HistoryBackupPanel: React.FC<HistoryBackupPanelProps> = ({ isOpen, onClose, history, seriesList, onImport }) => {
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [strategy, setStrategy] = useState(ImportConflictStrategy.KeepNewest);
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+    const [importError, setImportError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedIds(new Set(history.map(creation => creation.id)));
+            setImportMessage(null);
+            setImportError(null);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const toggleCreation = (id: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const handleExport = () => {
+        const selected = history.filter(creation => selectedIds.has(creation.id));
+        downloadHistoryBackup(createHistoryBackup(selected, seriesList));
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setImportMessage(null);
+        setImportError(null);
+        try {
+            const backup = parseHistoryBackup(await file.text());
+            const { added, replaced, kept } = onImport(backup, strategy);
+            const skippedNote = backup.skipped > 0 ? ` ${backup.skipped} criação(ões) do arquivo não puderam ser lidas e foram ignoradas.` : '';
+            setImportMessage(`${added} criação(ões) adicionada(s), ${replaced} substituída(s) e ${kept} mantida(s) como estavam.${skippedNote}`);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Não foi possível importar o arquivo.');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] flex flex-col gap-6" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center">
+                    <h3 className="text-xl font-bold text-amber-400">Backup do histórico</h3>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar backup do histórico">
+                        <XMarkIcon className="h-6 w-6 text-gray-300"/>
+                    </button>
+                </div>
+
+                <section className="flex flex-col gap-3 min-h-0">
+                    <div className="flex items-center justify-between gap-2">
+                        <h4 className="font-semibold text-gray-200">Exportar</h4>
+                        <div className="flex gap-3 text-sm">
+                            <button onClick={() => setSelectedIds(new Set(history.map(creation => creation.id)))} className="text-gray-400 hover:text-white">Selecionar todas</button>
+                            <button onClick={() => setSelectedIds(new Set())} className="text-gray-400 hover:text-white">Limpar seleção</button>
+                        </div>
+                    </div>
+                    {history.length === 0 ? (
+                        <p className="text-gray-500 italic">Nenhuma criação salva ainda.</p>
+                    ) : (
+                        <ul className="space-y-1 overflow-y-auto max-h-64 border border-gray-700 rounded-md p-2">
+                            {history.map(creation => {
+                                const name = creation.params.creationName || creation.outputs.titles[0] || creation.params.mainPrompt;
+                                return (
+                                    <li key={creation.id}>
+                                        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                                            <input type="checkbox" checked={selectedIds.has(creation.id)} onChange={() => toggleCreation(creation.id)} className="accent-amber-500" />
+                                            <span className="truncate flex-1" title={name}>{name}</span>
+                                            <span className="text-gray-500 text-xs">{new Date(creation.timestamp).toLocaleDateString()}</span>
+                                        </label>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                    <button onClick={handleExport} disabled={selectedIds.size === 0} className={`self-start ${buttonClassName}`}>
+                        <ArrowDownTrayIcon className="h-5 w-5" />
+                        Exportar {selectedIds.size} criação(ões)
+                    </button>
+                </section>
+
+                <section className="flex flex-col gap-3 border-t border-gray-700 pt-4">
+                    <h4 className="font-semibold text-gray-200">Importar</h4>
+                    <fieldset className="space-y-1 text-sm text-gray-300">
+                        <legend className="text-gray-400 mb-1">Quando uma criação importada já existir com diferenças:</legend>
+                        {Object.values(ImportConflictStrategy).map(option => (
+                            <label key={option} className="flex items-center gap-2 cursor-pointer">
+                                <input type="radio" name="importConflictStrategy" checked={strategy === option} onChange={() => setStrategy(option)} className="accent-amber-500" />
+                                {importConflictLabels[option]}
+                            </label>
+                        ))}
+                    </fieldset>
+                    <label className={`self-start cursor-pointer ${buttonClassName}`}>
+                        <ArrowUpTrayIcon className="h-5 w-5" />
+                        Escolher arquivo de backup
+                        <input type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+                    </label>
+                    {importMessage && <p className="text-emerald-400 text-sm">{importMessage}</p>}
+                    {importError && <p className="text-red-400 text-sm">{importError}</p>}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default HistoryBackupPanel;
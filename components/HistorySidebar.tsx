@@ -1,77 +1,123 @@
 import React from 'react';
-import { Creation } from '../types';
-import { TrashIcon, XMarkIcon, PlusIcon } from './Icons';
+import { Creation, Series, UsageRecord } from '../types';
+import { PriceTable, formatUsageSummary, summarizeUsage } from '../services/usageTracker';
+import { groupHistoryBySeries } from '../services/series';
+import { TrashIcon, XMarkIcon, PlusIcon, ChartBarIcon, ArrowDownTrayIcon } from './Icons';
 
 interface HistorySidebarProps {
     isOpen: boolean;
     onClose: () => void;
     history: Creation[];
+    seriesList: Series[];
     currentCreationId: string | null;
     onLoad: (id: string) => void;
     onDelete: (id: string) => void;
     onNew: () => void;
+    priceTable: PriceTable;
+    sessionUsage: UsageRecord[];
+    todayUsage: UsageRecord[];
+    onOpenUsage: () => void;
+    onOpenBackup: () => void;
 }
 
-const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose, history, currentCreationId, onLoad, onDelete, onNew }) => {
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose, history, seriesList, currentCreationId, onLoad, onDelete, onNew, priceTable, sessionUsage, todayUsage, onOpenUsage, onOpenBackup }) => {
+    const groups = groupHistoryBySeries(history, seriesList);
+
+    const renderCreation = (creation: Creation) => {
+        const { params, outputs } = creation;
+        const name = params.creationName || (outputs.titles && outputs.titles.length > 0 ? outputs.titles[0] : params.mainPrompt);
+        const displayName = params.episodeNumber && params.seriesId ? `Ep. ${params.episodeNumber} · ${name}` : name;
+        return (
+            <li 
+                key={creation.id} 
+                className={`p-3 rounded-lg border-2 transition-colors ${currentCreationId === creation.id ? 'bg-amber-900/50 border-amber-500' : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'}`}
+            >
+                <div className="cursor-pointer" onClick={() => onLoad(creation.id)}>
+                    <div className="font-semibold truncate text-gray-200" title={displayName}>
+                        {displayName}
+                    </div>
+                    <div className="text-sm text-gray-400 mb-2">
+                        {new Date(creation.timestamp).toLocaleString()}
+                        {creation.usage && creation.usage.length > 0 && (
+                            <div className="text-xs text-gray-500">{formatUsageSummary(summarizeUsage(creation.usage, priceTable))}</div>
+                        )}
+                    </div>
+                </div>
+                <div className="flex gap-2">
+                    <button 
+                        onClick={() => onLoad(creation.id)}
+                        className="flex-1 bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-2 rounded"
+                    >
+                        Carregar
+                    </button>
+                    <button 
+                        onClick={() => onDelete(creation.id)}
+                        className="bg-red-800 hover:bg-red-700 text-white text-sm py-1 px-2 rounded"
+                        aria-label={`Apagar criação: ${displayName}`}
+                    >
+                        <TrashIcon className="h-4 w-4"/>
+                    </button>
+                </div>
+            </li>
+        );
+    };
+
     return (
         <>
-            <aside className={`fixed top-0 left-0 z-40 w-80 h-screen bg-gray-800 border-r border-gray-700 shadow-xl transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+            <aside className={`fixed top-0 left-0 z-40 w-80 h-screen flex flex-col bg-gray-800 border-r border-gray-700 shadow-xl transition-transform duration-300 ease-in-out ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
                 <div className="flex justify-between items-center p-4 border-b border-gray-700">
                     <h2 className="text-2xl font-bold text-amber-400">Histórico</h2>
                     <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar histórico">
                         <XMarkIcon className="h-6 w-6 text-gray-300"/>
                     </button>
                 </div>
-                <div className="p-4 border-b border-gray-700">
+                <div className="p-4 border-b border-gray-700 flex gap-2">
                     <button
                         onClick={onNew}
-                        className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-amber-500 hover:bg-amber-600 text-gray-900 font-bold rounded-lg transition-colors"
+                        className="flex-1 flex items-center justify-center gap-2 py-2 px-4 bg-amber-500 hover:bg-amber-600 text-gray-900 font-bold rounded-lg transition-colors"
                     >
                         <PlusIcon className="h-6 w-6" />
                         <span>Nova Criação</span>
                     </button>
+                    <button
+                        onClick={onOpenBackup}
+                        className="py-2 px-3 bg-gray-600 hover:bg-gray-500 text-white rounded-lg transition-colors"
+                        title="Exportar ou importar o histórico"
+                    >
+                        <ArrowDownTrayIcon className="h-6 w-6" />
+                    </button>
                 </div>
-                <div className="p-4 h-[calc(100vh-142px)] overflow-y-auto">
+                <div className="p-4 flex-1 overflow-y-auto">
                     {history.length === 0 ? (
                         <p className="text-gray-500 italic text-center mt-8">Nenhuma criação salva ainda.</p>
                     ) : (
-                        <ul className="space-y-3">
-                            {history.map(creation => {
-                                const displayName = creation.creationName || (creation.titles && creation.titles.length > 0 ? creation.titles[0] : creation.mainPrompt);
-                                return (
-                                <li 
-                                    key={creation.id} 
-                                    className={`p-3 rounded-lg border-2 transition-colors ${currentCreationId === creation.id ? 'bg-amber-900/50 border-amber-500' : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'}`}
-                                >
-                                    <div className="cursor-pointer" onClick={() => onLoad(creation.id)}>
-                                        <div className="font-semibold truncate text-gray-200" title={displayName}>
-                                            {displayName}
-                                        </div>
-                                        <div className="text-sm text-gray-400 mb-2">
-                                            {new Date(creation.timestamp).toLocaleString()}
-                                        </div>
-                                    </div>
-                                    <div className="flex gap-2">
-                                        <button 
-                                            onClick={() => onLoad(creation.id)}
-                                            className="flex-1 bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-2 rounded"
-                                        >
-                                            Carregar
-                                        </button>
-                                        <button 
-                                            onClick={() => onDelete(creation.id)}
-                                            className="bg-red-800 hover:bg-red-700 text-white text-sm py-1 px-2 rounded"
-                                            aria-label={`Apagar criação: ${displayName}`}
-                                        >
-                                            <TrashIcon className="h-4 w-4"/>
-                                        </button>
-                                    </div>
-                                </li>
-                                )
-                            })}
-                        </ul>
+                        <div className="space-y-6">
+                            {groups.map(group => (
+                                <section key={group.series?.id ?? 'standalone'}>
+                                    {(group.series || groups.length > 1) && (
+                                        <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-400 mb-2 truncate" title={group.series?.name}>
+                                            {group.series ? `${group.series.name} (${group.creations.length})` : 'Criações avulsas'}
+                                        </h3>
+                                    )}
+                                    <ul className="space-y-3">
+                                        {group.creations.map(renderCreation)}
+                                    </ul>
+                                </section>
+                            ))}
+                        </div>
                     )}
                 </div>
+                <button
+                    onClick={onOpenUsage}
+                    className="p-4 border-t border-gray-700 text-left text-xs text-gray-400 hover:bg-gray-700 transition-colors"
+                    title="Ver painel de uso"
+                >
+                    <div className="flex items-center gap-2 font-semibold text-gray-300 mb-1">
+                        <ChartBarIcon className="h-4 w-4 text-amber-400"/> Uso estimado
+                    </div>
+                    <div>Sessão: {formatUsageSummary(summarizeUsage(sessionUsage, priceTable))}</div>
+                    <div>Hoje: {formatUsageSummary(summarizeUsage(todayUsage, priceTable))}</div>
+                </button>
             </aside>
             {/* Overlay */}
             {isOpen && (
@@ -0,0 +1,41 @@
+import React from 'react';
+import { LengthTrail } from '../types';
+import { getCandidateLabel } from '../services/lengthPolicy';
+import { getUnitName } from '../services/lengthUnits';
+
+interface LengthTrailPickerProps {
+    trail: LengthTrail;
+    onSelect: (index: number) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Lists the versions produced while fitting the content to its length, so the user
+ * can see which one is in use and go back to another.
+ */
+const LengthTrailPicker: React.FC<LengthTrailPickerProps> = ({ trail, onSelect, disabled }) => {
+    if (trail.candidates.length < 2) return null;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+            <span>Versões:</span>
+            {trail.candidates.map((candidate, index) => (
+                <button
+                    key={index}
+                    onClick={() => onSelect(index)}
+                    disabled={disabled || index === trail.selected}
+                    className={`py-1 px-2 rounded-md border transition-colors disabled:cursor-not-allowed ${
+                        index === trail.selected
+                            ? 'border-amber-500 text-amber-400'
+                            : 'border-gray-600 hover:bg-gray-700 disabled:opacity-50'
+                    }`}
+                    title={index === trail.selected ? 'Versão em uso' : 'Usar esta versão'}
+                >
+                    {getCandidateLabel(candidate)} · {candidate.length.toLocaleString('pt-BR')} {getUnitName(trail.unit)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default LengthTrailPicker;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { ScripturePassage } from '../types';
+import { bibleBooks, getBibleTranslation, getBookById, getBookName } from '../services/bibleBooks';
+import { createPassage, formatPassage } from '../services/scripturePassages';
+import { XMarkIcon } from './Icons';
+
+interface PassagePickerProps {
+    passages: ScripturePassage[];
+    language: string;
+    onChange: (passages: ScripturePassage[]) => void;
+    disabled?: boolean;
+}
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed';
+
+/**
+ * Lets the user anchor the content in Bible passages picked from the local index.
+ */
+const PassagePicker: React.FC<PassagePickerProps> = ({ passages, language, onChange, disabled }) => {
+    const [bookId, setBookId] = useState(bibleBooks[0].id);
+    const [chapter, setChapter] = useState('1');
+    const [verseStart, setVerseStart] = useState('');
+    const [verseEnd, setVerseEnd] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isAdding, setIsAdding] = useState(false);
+
+    const handleAdd = async () => {
+        setError(null);
+        setIsAdding(true);
+        try {
+            const passage = await createPassage(
+                language,
+                bookId,
+                Number(chapter),
+                verseStart ? Number(verseStart) : undefined,
+                verseEnd ? Number(verseEnd) : undefined
+            );
+            onChange([...passages, passage]);
+            setVerseStart('');
+            setVerseEnd('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível adicionar a passagem.');
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const handleRemove = (index: number) => {
+        onChange(passages.filter((_, i) => i !== index));
+    };
+
+    const translation = getBibleTranslation(language);
+    const hasMissingText = passages.some(passage => !passage.text);
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                    value={bookId}
+                    onChange={(e) => { setBookId(e.target.value); setChapter('1'); }}
+                    className={inputClassName}
+                    aria-label="Livro"
+                    disabled={disabled}
+                >
+                    {bibleBooks.map(book => (
+                        <option key={book.id} value={book.id}>{getBookName(book, language)}</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    min="1"
+                    max={getBookById(bookId)?.chapters}
+                    value={chapter}
+                    onChange={(e) => setChapter(e.target.value)}
+                    className={`w-20 ${inputClassName}`}
+                    aria-label="Capítulo"
+                    disabled={disabled}
+                />
+                <span className="text-gray-400">:</span>
+                <input
+                    type="number"
+                    min="1"
+                    value={verseStart}
+                    onChange={(e) => setVerseStart(e.target.value)}
+                    placeholder="Início"
+                    className={`w-20 ${inputClassName}`}
+                    aria-label="Primeiro versículo"
+                    disabled={disabled}
+                />
+                <span className="text-gray-400">–</span>
+                <input
+                    type="number"
+                    min="1"
+                    value={verseEnd}
+                    onChange={(e) => setVerseEnd(e.target.value)}
+                    placeholder="Fim"
+                    className={`w-20 ${inputClassName}`}
+                    aria-label="Último versículo"
+                    disabled={disabled || !verseStart}
+                />
+                <button
+                    type="button"
+                    onClick={handleAdd}
+                    disabled={disabled || isAdding || !chapter}
+                    className="py-2 px-3 bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                    Adicionar
+                </button>
+            </div>
+            <p className="text-xs text-gray-500">Sem versículos, a passagem é o capítulo inteiro. Tradução: {translation.name}.</p>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            {hasMissingText && (
+                <p className="text-sm text-amber-300 bg-amber-900/20 border border-amber-800 rounded-md p-2">
+                    Não foi possível carregar o texto da {translation.name} (falta o arquivo <code>public/bible/{translation.file}</code>); as passagens marcadas com * serão enviadas à IA apenas como tema, sem o texto, e a criação não poderá citá-las.
+                </p>
+            )}
+            {passages.length > 0 && (
+                <ul className="flex flex-wrap gap-2">
+                    {passages.map((passage, index) => (
+                        <li
+                            key={`${formatPassage(passage, language)}-${index}`}
+                            className="flex items-center gap-1 text-sm bg-gray-700 border border-gray-600 rounded-full py-1 pl-3 pr-2"
+                            title={passage.text || `Texto da ${passage.translation} indisponível; a passagem será enviada à IA apenas como tema.`}
+                        >
+                            <span>{formatPassage(passage, language)}</span>
+                            {!passage.text && <span className="text-amber-400">*</span>}
+                            <button
+                                type="button"
+                                onClick={() => handleRemove(index)}
+                                disabled={disabled}
+                                className="text-gray-400 hover:text-white disabled:cursor-not-allowed"
+                                title="Remover passagem"
+                            >
+                                <XMarkIcon className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default PassagePicker;
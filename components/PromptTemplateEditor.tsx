@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { DoctrinalProfile, GenerationParams, Series } from '../types';
+import { previewPrompt } from '../services/geminiService';
+import {
+    PromptTemplateId, PromptTemplateOverrides, commonPlaceholders, specificPlaceholders,
+    defaultPromptTemplates, findUnknownPlaceholders, getTemplateText, isOverrideOutdated
+} from '../services/promptTemplates';
+import { XMarkIcon } from './Icons';
+
+interface PromptTemplateEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    overrides: PromptTemplateOverrides;
+    onOverridesChange: (overrides: PromptTemplateOverrides) => void;
+    /** The current form values, used to render the preview. */
+    params: GenerationParams;
+    doctrinalProfile?: DoctrinalProfile;
+    series?: Series;
+}
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ isOpen, onClose, overrides, onOverridesChange, params, doctrinalProfile, series }) => {
+    const [selectedId, setSelectedId] = useState<PromptTemplateId>(PromptTemplateId.Content);
+    const [draft, setDraft] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(getTemplateText(selectedId, overrides));
+        }
+    }, [isOpen, selectedId, overrides]);
+
+    if (!isOpen) return null;
+
+    const definition = defaultPromptTemplates[selectedId];
+    const isCustomized = !!overrides[selectedId];
+    const hasChanges = draft !== getTemplateText(selectedId, overrides);
+    const unknownPlaceholders = findUnknownPlaceholders(selectedId, draft);
+    const previewOverrides: PromptTemplateOverrides = { ...overrides, [selectedId]: { template: draft, baseRevision: definition.revision } };
+    const availablePlaceholders = [
+        ...Object.entries(commonPlaceholders),
+        ...definition.placeholders.map(name => [name, specificPlaceholders[name]]),
+    ];
+
+    const handleSave = () => {
+        const { [selectedId]: _previous, ...rest } = overrides;
+        onOverridesChange(draft === definition.template
+            ? rest
+            : { ...rest, [selectedId]: { template: draft, baseRevision: definition.revision } });
+    };
+
+    const handleReset = () => {
+        const { [selectedId]: _previous, ...rest } = overrides;
+        onOverridesChange(rest);
+        setDraft(definition.template);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-amber-400">Modelos de Prompt</h3>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar modelos de prompt">
+                        <XMarkIcon className="h-6 w-6 text-gray-300"/>
+                    </button>
+                </div>
+
+                <select
+                    value={selectedId}
+                    onChange={(e) => setSelectedId(e.target.value as PromptTemplateId)}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 mb-4 focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition"
+                >
+                    {Object.values(PromptTemplateId).map(id => (
+                        <option key={id} value={id}>
+                            {defaultPromptTemplates[id].label}{overrides[id] ? ' (personalizado)' : ''}
+                        </option>
+                    ))}
+                </select>
+
+                {isOverrideOutdated(selectedId, overrides) && (
+                    <p className="text-sm text-amber-300 bg-amber-900/40 border border-amber-700 rounded-md p-2 mb-4">
+                        O modelo padrão foi atualizado depois da sua edição. Compare com o padrão ou restaure-o para receber as melhorias.
+                    </p>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-semibold mb-2 text-gray-300">Modelo</label>
+                        <textarea
+                            value={draft}
+                            onChange={(e) => setDraft(e.target.value)}
+                            rows={18}
+                            className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 font-mono text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition"
+                        />
+                        {unknownPlaceholders.length > 0 && (
+                            <p className="text-sm text-red-400 mt-1">
+                                Marcadores desconhecidos (serão enviados como texto): {unknownPlaceholders.map(name => `{${name}}`).join(', ')}
+                            </p>
+                        )}
+                        <div className="text-xs text-gray-400 mt-2">
+                            <p className="mb-1">Use <code>{'{nome}'}</code> para inserir um valor e <code>{'{#nome}...{/nome}'}</code> para incluir um trecho só quando o valor estiver preenchido.</p>
+                            <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+                                {availablePlaceholders.map(([name, description]) => (
+                                    <li key={name}><code className="text-amber-300">{`{${name}}`}</code> {description}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-semibold mb-2 text-gray-300">Pré-visualização</label>
+                        <pre className="w-full h-[27rem] overflow-y-auto bg-gray-900 border border-gray-700 rounded-md p-2 text-sm text-gray-300 whitespace-pre-wrap">
+                            {previewPrompt(selectedId, params, previewOverrides, doctrinalProfile, series)}
+                        </pre>
+                    </div>
+                </div>
+
+                <div className="flex justify-end gap-4 mt-4">
+                    <button onClick={handleReset} disabled={!isCustomized && draft === definition.template} className="py-2 px-4 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        Restaurar padrão
+                    </button>
+                    <button onClick={handleSave} disabled={!hasChanges} className="py-2 px-4 bg-amber-500 hover:bg-amber-600 text-gray-900 font-bold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                        Salvar
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplateEditor;
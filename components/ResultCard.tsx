@@ -1,6 +1,6 @@
 import React, { useRef, useEffect } from 'react';
 import LoadingSpinner from './LoadingSpinner';
-import { RefreshIcon, ClipboardIcon, ClipboardCheckIcon } from './Icons';
+import { RefreshIcon, ClipboardIcon, ClipboardCheckIcon, HistoryIcon } from './Icons';
 
 interface ResultCardProps {
     title: string;
@@ -15,7 +15,16 @@ interface ResultCardProps {
     isEditable?: boolean;
     value?: string;
     onChange?: (value: string) => void;
+    /** Called when the user leaves the text box, to save a manual edit. */
+    onEditEnd?: () => void;
+    onShowRevisions?: () => void;
     textareaHeight?: string;
+    isStreaming?: boolean;
+    onStop?: () => void;
+    error?: string;
+    onRetry?: () => void;
+    /** Extra controls shown below the content. */
+    children?: React.ReactNode;
 }
 
 const ResultCard: React.FC<ResultCardProps> = ({ 
@@ -31,7 +40,14 @@ const ResultCard: React.FC<ResultCardProps> = ({
     isEditable = false,
     value,
     onChange,
-    textareaHeight = 'auto'
+    onEditEnd,
+    onShowRevisions,
+    textareaHeight = 'auto',
+    isStreaming = false,
+    onStop,
+    error,
+    onRetry,
+    children
 }) => {
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -51,7 +67,16 @@ const ResultCard: React.FC<ResultCardProps> = ({
                     <span className="h-6 w-6 text-amber-400 mr-3">{icon}</span>
                     <h3 className="text-xl font-semibold text-amber-400">{title}</h3>
                 </div>
-                {!isLoading && (
+                {isStreaming && onStop && (
+                    <button
+                        onClick={onStop}
+                        className="text-sm py-1 px-3 bg-red-700 hover:bg-red-600 text-white rounded-lg transition-colors"
+                        title="Parar a geração e manter o texto recebido"
+                    >
+                        Parar
+                    </button>
+                )}
+                {!isLoading && !isStreaming && (
                      <div className="flex items-center gap-3">
                         {onRegenerate && (
                             <button 
@@ -63,6 +88,16 @@ const ResultCard: React.FC<ResultCardProps> = ({
                                 <RefreshIcon className="h-5 w-5" />
                             </button>
                         )}
+                        {onShowRevisions && (
+                            <button 
+                                onClick={onShowRevisions} 
+                                disabled={!hasContent}
+                                className="text-gray-400 hover:text-white transition-colors disabled:text-gray-600 disabled:cursor-not-allowed" 
+                                title="Histórico de versões"
+                            >
+                                <HistoryIcon className="h-5 w-5" />
+                            </button>
+                        )}
                         {onCopy && (
                             <button 
                                 onClick={onCopy} 
@@ -76,6 +111,20 @@ const ResultCard: React.FC<ResultCardProps> = ({
                     </div>
                 )}
             </div>
+            {error && !isLoading && (
+                <div className="flex items-center justify-between gap-3 bg-red-900/40 border border-red-700 text-red-300 text-sm p-2 rounded-md mb-3">
+                    <span>{error}</span>
+                    {onRetry && (
+                        <button
+                            onClick={onRetry}
+                            disabled={actionsDisabled}
+                            className="flex-shrink-0 py-1 px-3 bg-red-700 hover:bg-red-600 text-white rounded-lg transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                        >
+                            Tentar novamente
+                        </button>
+                    )}
+                </div>
+            )}
             <div className="flex-grow">
                 {isLoading ? (
                     <div className="flex items-center justify-center h-full min-h-[100px]">
@@ -83,22 +132,29 @@ const ResultCard: React.FC<ResultCardProps> = ({
                     </div>
                 ) : (
                     hasContent ? (
-                        isEditable && onChange ? (
+                        isEditable && onChange && !isStreaming ? (
                              <textarea
                                 ref={textareaRef}
                                 value={value}
                                 onChange={(e) => onChange(e.target.value)}
+                                onBlur={onEditEnd}
                                 className="w-full bg-gray-700/50 border border-gray-600 rounded-md p-3 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition placeholder-gray-500 resize-none overflow-hidden text-gray-300 font-serif leading-relaxed"
                                 style={{ minHeight: textareaHeight }}
                             />
                         ) : (
-                           <div className="whitespace-pre-wrap text-gray-300 font-serif leading-relaxed">{value}</div>
+                           <div className="whitespace-pre-wrap text-gray-300 font-serif leading-relaxed">
+                               {value}
+                               {isStreaming && <span className="inline-block w-2 h-4 ml-1 bg-amber-400 animate-pulse align-middle"></span>}
+                           </div>
                         )
                     ) : (
                         <p className="text-gray-500 italic min-h-[100px] flex items-center justify-center">O conteúdo gerado aparecerá aqui...</p>
                     )
                 )}
             </div>
+            {children && !isLoading && hasContent && !isStreaming && (
+                <div className="mt-3">{children}</div>
+            )}
             {footerText && !isLoading && hasContent && (
                  <div className="text-right text-sm text-gray-500 mt-2 pt-2 border-t border-gray-700">
                     {footerText}
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Revision } from '../types';
+import { formatRevisionValue, revisionSourceLabels } from '../services/revisions';
+import { DiffKind, diffWords } from '../services/textDiff';
+import { XMarkIcon } from './Icons';
+
+interface RevisionHistoryProps {
+    /** The label of the field, or null when the history is closed. */
+    fieldLabel: string | null;
+    /** The revisions of the field, oldest first. */
+    revisions: Revision[];
+    onClose: () => void;
+    onRestore: (revision: Revision) => void;
+    disabled?: boolean;
+}
+
+const diffStyles: Record<DiffKind, string> = {
+    [DiffKind.Equal]: 'text-gray-300',
+    [DiffKind.Added]: 'bg-green-900/60 text-green-200',
+    [DiffKind.Removed]: 'bg-red-900/60 text-red-300 line-through',
+};
+
+const describeRevision = (revision: Revision, index: number) =>
+    `#${index + 1} · ${new Date(revision.timestamp).toLocaleString()} · ${revisionSourceLabels[revision.source]}`;
+
+/**
+ * Lists the revisions of a field, shows the words changed between any two of them
+ * and restores the field from an older one.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ fieldLabel, revisions, onClose, onRestore, disabled }) => {
+    const [baseIndex, setBaseIndex] = useState(0);
+    const [compareIndex, setCompareIndex] = useState(0);
+
+    useEffect(() => {
+        setCompareIndex(Math.max(0, revisions.length - 1));
+        setBaseIndex(Math.max(0, revisions.length - 2));
+    }, [fieldLabel, revisions.length]);
+
+    if (!fieldLabel) return null;
+
+    const base = revisions[baseIndex];
+    const compare = revisions[compareIndex];
+    const selectClassName = 'bg-gray-700 border border-gray-600 rounded-md p-2 text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 transition';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-amber-400">Histórico de versões: {fieldLabel}</h3>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar histórico de versões">
+                        <XMarkIcon className="h-6 w-6 text-gray-300"/>
+                    </button>
+                </div>
+
+                {revisions.length === 0 ? (
+                    <p className="text-gray-500 italic">Nenhuma versão salva para este campo. As versões são registradas quando a criação é gerada, regenerada ou editada.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 min-h-0 flex-1">
+                        <ul className="space-y-2 overflow-y-auto md:col-span-1">
+                            {revisions.map((revision, index) => (
+                                <li key={revision.id} className={`p-2 rounded-md border text-sm ${index === compareIndex ? 'border-amber-500 bg-amber-900/20' : 'border-gray-600 bg-gray-700/40'}`}>
+                                    <button onClick={() => setCompareIndex(index)} className="text-left w-full">
+                                        <div className="text-gray-200">{describeRevision(revision, index)}</div>
+                                        {revision.modification && <div className="text-gray-400 truncate" title={revision.modification}>“{revision.modification}”</div>}
+                                        {revision.restoredFrom && (
+                                            <div className="text-gray-500">
+                                                de #{revisions.findIndex(r => r.id === revision.restoredFrom) + 1 || '?'}
+                                            </div>
+                                        )}
+                                    </button>
+                                    {index < revisions.length - 1 && (
+                                        <button
+                                            onClick={() => onRestore(revision)}
+                                            disabled={disabled}
+                                            className="mt-1 text-xs py-1 px-2 bg-gray-600 hover:bg-gray-500 text-white rounded transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                                        >
+                                            Restaurar esta versão
+                                        </button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="md:col-span-2 flex flex-col min-h-0">
+                            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-400">
+                                Comparar
+                                <select value={baseIndex} onChange={(e) => setBaseIndex(Number(e.target.value))} className={selectClassName} aria-label="Versão anterior">
+                                    {revisions.map((revision, index) => (
+                                        <option key={revision.id} value={index}>{describeRevision(revision, index)}</option>
+                                    ))}
+                                </select>
+                                com
+                                <select value={compareIndex} onChange={(e) => setCompareIndex(Number(e.target.value))} className={selectClassName} aria-label="Versão comparada">
+                                    {revisions.map((revision, index) => (
+                                        <option key={revision.id} value={index}>{describeRevision(revision, index)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex-1 overflow-y-auto bg-gray-900 border border-gray-700 rounded-md p-3 whitespace-pre-wrap font-serif leading-relaxed">
+                                {base && compare && diffWords(formatRevisionValue(base.value), formatRevisionValue(compare.value)).map((part, index) => (
+                                    <span key={index} className={diffStyles[part.kind]}>{part.text}</span>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ScriptureReport } from '../services/scriptureCheck';
+
+interface ScriptureCheckPanelProps {
+    report: ScriptureReport;
+    content: string;
+}
+
+/** Characters of context shown around a flagged reference. */
+const EXCERPT_CONTEXT = 50;
+
+/**
+ * Shows the Bible references found in the content, with each problem in its sentence
+ * and the reference highlighted.
+ */
+const ScriptureCheckPanel: React.FC<ScriptureCheckPanelProps> = ({ report, content }) => {
+    if (report.checks.length === 0) return null;
+
+    const flagged = report.checks.filter(check => check.issues.length > 0);
+
+    return (
+        <div className="text-sm border-t border-gray-700 pt-3 space-y-2">
+            <p className={flagged.length > 0 ? 'text-red-300' : 'text-green-400'}>
+                {flagged.length > 0
+                    ? `Referências bíblicas: ${flagged.length} de ${report.checks.length} com problemas.`
+                    : `Referências bíblicas: ${report.checks.length} conferida(s) sem problemas.`}
+            </p>
+            {!report.hasBibleText && (
+                <p className="text-amber-300 bg-amber-900/20 border border-amber-800 rounded-md p-2">
+                    O texto da {report.translation.name} não está disponível (falta o arquivo <code>public/bible/{report.translation.file}</code>); os versículos foram conferidos pela numeração da King James Version, mas as citações não.
+                </p>
+            )}
+            {flagged.map(({ reference, issues }) => {
+                const start = Math.min(reference.start, reference.quote?.start ?? reference.start);
+                const end = Math.max(reference.end, reference.quote?.end ?? reference.end);
+                const excerptStart = Math.max(0, start - EXCERPT_CONTEXT);
+                const excerptEnd = Math.min(content.length, end + EXCERPT_CONTEXT);
+                return (
+                    <div key={reference.start} className="bg-red-900/20 border border-red-800 rounded-md p-2">
+                        <p className="text-gray-400 font-serif">
+                            {excerptStart > 0 && '…'}
+                            {content.slice(excerptStart, reference.start)}
+                            <mark className="bg-red-700/60 text-red-100 rounded px-0.5">{reference.text}</mark>
+                            {content.slice(reference.end, excerptEnd)}
+                            {excerptEnd < content.length && '…'}
+                        </p>
+                        <ul className="mt-1 text-red-300">
+                            {issues.map(issue => <li key={issue.kind}>{issue.message}</li>)}
+                        </ul>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ScriptureCheckPanel;
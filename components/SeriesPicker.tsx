@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Series } from '../types';
+import { createSeries, formatCharacterList, parseCharacterList } from '../services/series';
+import { parseTermList } from '../services/doctrinalProfile';
+import { TrashIcon } from './Icons';
+
+interface SeriesPickerProps {
+    seriesList: Series[];
+    /** The series of the current creation, or null for a standalone creation. */
+    seriesId: string | null;
+    episodeNumber: number;
+    onSelect: (seriesId: string | null) => void;
+    onEpisodeNumberChange: (episodeNumber: number) => void;
+    onCreate: (series: Series) => void;
+    onSeriesChange: (series: Series) => void;
+    onDelete: (seriesId: string) => void;
+    disabled?: boolean;
+}
+
+const inputClassName = 'bg-gray-700 border border-gray-600 rounded-md p-2 focus:ring-2 focus:ring-amber-400 focus:border-amber-400 transition disabled:cursor-not-allowed';
+
+/**
+ * Makes the creation an episode of a series and shows the memory of the series:
+ * the synopsis of the earlier episodes, the characters and the shared tags.
+ */
+const SeriesPicker: React.FC<SeriesPickerProps> = ({ seriesList, seriesId, episodeNumber, onSelect, onEpisodeNumberChange, onCreate, onSeriesChange, onDelete, disabled }) => {
+    const series = seriesList.find(s => s.id === seriesId);
+    const [newName, setNewName] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [charactersDraft, setCharactersDraft] = useState('');
+    const [tagsDraft, setTagsDraft] = useState('');
+
+    useEffect(() => {
+        setCharactersDraft(series ? formatCharacterList(series.characters) : '');
+        setTagsDraft(series ? series.tags.join(', ') : '');
+    }, [series]);
+
+    const handleCreate = () => {
+        try {
+            onCreate(createSeries(newName));
+            setNewName('');
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Não foi possível criar a série.');
+        }
+    };
+
+    return (
+        <div className="space-y-2 text-sm">
+            <select
+                value={seriesId ?? ''}
+                onChange={(e) => onSelect(e.target.value || null)}
+                className={`w-full ${inputClassName}`}
+                aria-label="Série"
+                disabled={disabled}
+            >
+                <option value="">Nenhuma (criação avulsa)</option>
+                {seriesList.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+            </select>
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleCreate(); } }}
+                    placeholder="Nova série (ex: A vida de José)"
+                    className={`flex-grow ${inputClassName}`}
+                    disabled={disabled}
+                />
+                <button
+                    type="button"
+                    onClick={handleCreate}
+                    disabled={disabled || !newName.trim()}
+                    className="py-2 px-3 bg-gray-600 hover:bg-gray-500 text-white rounded-md transition-colors disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                    Criar
+                </button>
+            </div>
+            {error && <p className="text-red-400">{error}</p>}
+            {series && (
+                <div className="border border-gray-600 rounded-md p-3 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-gray-300">
+                            Episódio
+                            <input
+                                type="number"
+                                min="1"
+                                value={episodeNumber}
+                                onChange={(e) => onEpisodeNumberChange(Math.max(1, Number(e.target.value)))}
+                                className={`w-20 ${inputClassName}`}
+                                disabled={disabled}
+                            />
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => onDelete(series.id)}
+                            disabled={disabled}
+                            className="text-gray-400 hover:text-red-400 disabled:cursor-not-allowed"
+                            title="Apagar série (os episódios ficam no histórico como criações avulsas)"
+                        >
+                            <TrashIcon className="h-5 w-5" />
+                        </button>
+                    </div>
+                    <div>
+                        <p className="font-semibold text-gray-300 mb-1">Anteriormente</p>
+                        {series.synopsis.length === 0 ? (
+                            <p className="text-gray-500 italic">O resumo de cada episódio aparece aqui depois de gerado.</p>
+                        ) : (
+                            <ul className="space-y-1 text-gray-400 max-h-40 overflow-y-auto">
+                                {series.synopsis.map(episode => (
+                                    <li key={episode.episodeNumber}>
+                                        <span className="text-gray-300">Ep. {episode.episodeNumber}:</span> {episode.summary}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    <label className="block text-gray-300">
+                        Personagens (um por linha, "Nome: descrição")
+                        <textarea
+                            value={charactersDraft}
+                            onChange={(e) => setCharactersDraft(e.target.value)}
+                            onBlur={() => onSeriesChange({ ...series, characters: parseCharacterList(charactersDraft) })}
+                            rows={3}
+                            className={`w-full mt-1 ${inputClassName}`}
+                            disabled={disabled}
+                        />
+                    </label>
+                    <label className="block text-gray-300">
+                        Tags da série (em todos os episódios)
+                        <input
+                            type="text"
+                            value={tagsDraft}
+                            onChange={(e) => setTagsDraft(e.target.value)}
+                            onBlur={() => onSeriesChange({ ...series, tags: parseTermList(tagsDraft) })}
+                            placeholder="Definidas pelo primeiro episódio quando vazias"
+                            className={`w-full mt-1 ${inputClassName}`}
+                            disabled={disabled}
+                        />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SeriesPicker;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { UsageRecord } from '../types';
+import { ModelPrice, PriceTable, defaultPriceTable, formatUsageSummary, operationLabels, summarizeUsage, summarizeUsageByDay } from '../services/usageTracker';
+import { TrashIcon, XMarkIcon, PlusIcon } from './Icons';
+
+interface UsagePanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sessionUsage: UsageRecord[];
+    usageLog: UsageRecord[];
+    priceTable: PriceTable;
+    onPriceTableChange: (priceTable: PriceTable) => void;
+}
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose, sessionUsage, usageLog, priceTable, onPriceTableChange }) => {
+    const [newModel, setNewModel] = useState('');
+
+    if (!isOpen) return null;
+
+    const sessionByOperation = new Map<string, UsageRecord[]>();
+    sessionUsage.forEach(record => {
+        sessionByOperation.set(record.operation, [...(sessionByOperation.get(record.operation) ?? []), record]);
+    });
+
+    const handlePriceChange = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: number) => {
+        onPriceTableChange({ ...priceTable, [model]: { ...priceTable[model], [field]: Math.max(0, value) } });
+    };
+
+    const handleAddModel = () => {
+        const model = newModel.trim();
+        if (model && !priceTable[model]) {
+            onPriceTableChange({ ...priceTable, [model]: { inputPerMillion: 0, outputPerMillion: 0 } });
+        }
+        setNewModel('');
+    };
+
+    const handleRemoveModel = (model: string) => {
+        const { [model]: _removed, ...rest } = priceTable;
+        onPriceTableChange(rest);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-xl font-bold text-amber-400">Uso de Tokens e Custo Estimado</h3>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700 transition-colors" aria-label="Fechar painel de uso">
+                        <XMarkIcon className="h-6 w-6 text-gray-300"/>
+                    </button>
+                </div>
+
+                <section className="mb-6">
+                    <h4 className="text-lg font-semibold text-gray-300 mb-2">Sessão atual</h4>
+                    <p className="text-gray-200">{formatUsageSummary(summarizeUsage(sessionUsage, priceTable))} em {sessionUsage.length} chamada(s)</p>
+                    {sessionByOperation.size > 0 && (
+                        <ul className="mt-2 text-sm text-gray-400 space-y-1">
+                            {Array.from(sessionByOperation.entries()).map(([operation, records]) => (
+                                <li key={operation} className="flex justify-between">
+                                    <span>{operationLabels[operation] ?? operation} ({records.length})</span>
+                                    <span>{formatUsageSummary(summarizeUsage(records, priceTable))}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                <section className="mb-6">
+                    <h4 className="text-lg font-semibold text-gray-300 mb-2">Por dia</h4>
+                    {usageLog.length === 0 ? (
+                        <p className="text-gray-500 italic">Nenhum uso registrado ainda.</p>
+                    ) : (
+                        <ul className="text-sm text-gray-400 space-y-1">
+                            {summarizeUsageByDay(usageLog, priceTable).map(({ day, summary }) => (
+                                <li key={day} className="flex justify-between">
+                                    <span>{new Date(`${day}T00:00:00`).toLocaleDateString()} ({summary.calls} chamadas)</span>
+                                    <span>{formatUsageSummary(summary)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                <section>
+                    <h4 className="text-lg font-semibold text-gray-300 mb-2">Tabela de preços (US$ por milhão de tokens)</h4>
+                    <table className="w-full text-sm text-gray-300">
+                        <thead>
+                            <tr className="text-gray-500 text-left">
+                                <th className="py-1">Modelo</th>
+                                <th className="py-1">Entrada</th>
+                                <th className="py-1">Saída</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Object.entries<ModelPrice>(priceTable).map(([model, price]) => (
+                                <tr key={model}>
+                                    <td className="py-1 pr-2 font-mono">{model}</td>
+                                    <td className="py-1 pr-2">
+                                        <input type="number" min="0" step="0.01" value={price.inputPerMillion} onChange={(e) => handlePriceChange(model, 'inputPerMillion', Number(e.target.value))} className="w-24 bg-gray-700 border border-gray-600 rounded-md p-1"/>
+                                    </td>
+                                    <td className="py-1 pr-2">
+                                        <input type="number" min="0" step="0.01" value={price.outputPerMillion} onChange={(e) => handlePriceChange(model, 'outputPerMillion', Number(e.target.value))} className="w-24 bg-gray-700 border border-gray-600 rounded-md p-1"/>
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        <button onClick={() => handleRemoveModel(model)} className="text-gray-400 hover:text-red-400" aria-label={`Remover preço de ${model}`}>
+                                            <TrashIcon className="h-4 w-4"/>
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="flex gap-2 mt-3">
+                        <input
+                            type="text"
+                            value={newModel}
+                            onChange={(e) => setNewModel(e.target.value)}
+                            placeholder="Nome do modelo"
+                            className="flex-grow bg-gray-700 border border-gray-600 rounded-md p-2 text-sm"
+                        />
+                        <button onClick={handleAddModel} className="flex items-center gap-1 py-1 px-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm transition-colors">
+                            <PlusIcon className="h-4 w-4"/> Adicionar
+                        </button>
+                        <button onClick={() => onPriceTableChange(defaultPriceTable)} className="py-1 px-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-sm transition-colors">
+                            Restaurar padrão
+                        </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">* Custos marcados com asterisco incluem modelos sem preço na tabela, contados como gratuitos.</p>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
@@ -0,0 +1,186 @@
+export enum AiErrorKind {
+    Auth = 'auth',
+    Quota = 'quota',
+    RateLimit = 'rateLimit',
+    Overloaded = 'overloaded',
+    SafetyBlocked = 'safetyBlocked',
+    Parse = 'parse',
+    Network = 'network',
+    Unknown = 'unknown',
+}
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export type RetryPolicies = Record<AiErrorKind, RetryPolicy>;
+
+export const defaultRetryPolicies: RetryPolicies = {
+    [AiErrorKind.Auth]: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+    [AiErrorKind.Quota]: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+    [AiErrorKind.RateLimit]: { maxRetries: 3, baseDelayMs: 5000, maxDelayMs: 60000 },
+    [AiErrorKind.Overloaded]: { maxRetries: 3, baseDelayMs: 2000, maxDelayMs: 16000 },
+    [AiErrorKind.SafetyBlocked]: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+    [AiErrorKind.Parse]: { maxRetries: 1, baseDelayMs: 500, maxDelayMs: 500 },
+    [AiErrorKind.Network]: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 },
+    [AiErrorKind.Unknown]: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+};
+
+/** Final messages shown in the error banner, telling the user what to do next. */
+export const errorMessages: Record<AiErrorKind, string> = {
+    [AiErrorKind.Auth]: "A chave de API foi recusada pelo provedor. Verifique se ela está correta e ativa e salve-a novamente.",
+    [AiErrorKind.Quota]: "A cota de uso da sua chave de API foi esgotada. Verifique o plano ou o faturamento do provedor, ou aguarde a renovação da cota.",
+    [AiErrorKind.RateLimit]: "O limite de requisições por minuto foi atingido. Aguarde alguns instantes e tente novamente.",
+    [AiErrorKind.Overloaded]: "O modelo parece estar sobrecarregado. Por favor, tente novamente mais tarde.",
+    [AiErrorKind.SafetyBlocked]: "A resposta foi bloqueada pelos filtros de segurança da IA. Reformule a ideia ou o pedido de modificação e tente novamente.",
+    [AiErrorKind.Parse]: "A resposta da IA não estava no formato JSON esperado. Tente gerar novamente.",
+    [AiErrorKind.Network]: "Não foi possível conectar ao provedor de IA. Verifique sua conexão com a internet ou o endereço do servidor.",
+    [AiErrorKind.Unknown]: "Ocorreu um erro desconhecido na API.",
+};
+
+/** Status line shown while waiting for the next attempt. */
+const retryStatusMessages: Partial<Record<AiErrorKind, string>> = {
+    [AiErrorKind.RateLimit]: 'Limite de requisições atingido.',
+    [AiErrorKind.Overloaded]: 'O modelo está sobrecarregado.',
+    [AiErrorKind.Parse]: 'A resposta da IA veio em formato inválido.',
+    [AiErrorKind.Network]: 'Falha de conexão com o provedor.',
+};
+
+/**
+ * Error thrown by every service function, carrying its classification.
+ */
+export class AiServiceError extends Error {
+    kind: AiErrorKind;
+    retryAfterMs?: number;
+
+    constructor(kind: AiErrorKind, message: string = errorMessages[kind], retryAfterMs?: number) {
+        super(message);
+        this.name = 'AiServiceError';
+        this.kind = kind;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Raised by the HTTP providers for non-2xx responses.
+ */
+export class ProviderHttpError extends Error {
+    status: number;
+    retryAfterMs?: number;
+
+    constructor(status: number, message: string, retryAfterMs?: number) {
+        super(`HTTP ${status}: ${message}`);
+        this.name = 'ProviderHttpError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Raised when a request is cancelled through its abort signal.
+ */
+export class GenerationCancelledError extends Error {
+    constructor() {
+        super("A geração foi cancelada.");
+        this.name = 'GenerationCancelledError';
+    }
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ * @param value The raw header value.
+ * @returns The delay in milliseconds, if the header could be read.
+ */
+export const parseRetryAfterHeader = (value: string | null): number | undefined => {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return seconds * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Reads a property of a thrown value, which can be anything.
+ */
+const readProperty = (value: unknown, key: string): unknown =>
+    value !== null && typeof value === 'object' && key in value ? (value as Record<string, unknown>)[key] : undefined;
+
+/**
+ * Reads the HTTP status from the different error shapes the providers produce.
+ */
+const getStatus = (error: unknown, message: string): number | undefined => {
+    const status = readProperty(error, 'status');
+    if (typeof status === 'number') {
+        return status;
+    }
+    const match = message.match(/"code"\s*:\s*(\d{3})/) ?? message.match(/\b(?:HTTP|status)[:\s]*(\d{3})\b/i) ?? message.match(/^\[?(\d{3})\b/);
+    return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Reads the "retryDelay": "37s" hint that Gemini puts into its 429 error details.
+ */
+const getRetryDelayHint = (message: string): number | undefined => {
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Classifies any error thrown by a provider call.
+ * @param error The raw error.
+ * @returns An AiServiceError with its kind and retry hint.
+ */
+export const classifyError = (error: unknown): AiServiceError => {
+    if (error instanceof AiServiceError) {
+        return error;
+    }
+    const errorMessage = readProperty(error, 'message');
+    const message = typeof errorMessage === 'string' ? errorMessage : String(error);
+    const lowerMessage = message.toLowerCase();
+    const status = getStatus(error, message);
+    const retryAfter = readProperty(error, 'retryAfterMs');
+    const retryAfterMs = typeof retryAfter === 'number' ? retryAfter : getRetryDelayHint(message);
+
+    if (status === 401 || status === 403 || /api key not valid|api_key_invalid|invalid api key|incorrect api key|permission_denied|unauthenticated/.test(lowerMessage)) {
+        return new AiServiceError(AiErrorKind.Auth);
+    }
+    if (status === 429 || lowerMessage.includes('resource_exhausted') || lowerMessage.includes('rate limit')) {
+        const isQuota = /perday|per day|insufficient_quota|billing|quota exceeded for quota metric.*day/.test(lowerMessage);
+        return new AiServiceError(isQuota ? AiErrorKind.Quota : AiErrorKind.RateLimit, undefined, retryAfterMs);
+    }
+    if ((status !== undefined && status >= 500) || lowerMessage.includes('overloaded') || lowerMessage.includes('unavailable') || readProperty(readProperty(error, 'cause'), 'status') === 'UNAVAILABLE') {
+        return new AiServiceError(AiErrorKind.Overloaded, undefined, retryAfterMs);
+    }
+    if (error instanceof TypeError || /failed to fetch|networkerror|fetch failed|network request failed|econnrefused|enotfound|load failed/.test(lowerMessage)) {
+        return new AiServiceError(AiErrorKind.Network);
+    }
+    return new AiServiceError(AiErrorKind.Unknown, message || errorMessages[AiErrorKind.Unknown]);
+};
+
+/**
+ * Computes the wait before the next attempt: the server's retry-after hint when given,
+ * otherwise capped exponential backoff. Both get random jitter so parallel calls spread out.
+ * @param policy The retry policy for the error kind.
+ * @param attempt The zero-based index of the attempt that failed.
+ * @param retryAfterMs The delay requested by the server, if any.
+ * @returns The delay in milliseconds.
+ */
+export const computeRetryDelay = (policy: RetryPolicy, attempt: number, retryAfterMs?: number): number => {
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs + Math.random() * 1000;
+    }
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+    return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+/**
+ * Builds the status line shown while waiting to retry.
+ */
+export const getRetryStatusMessage = (kind: AiErrorKind, delayMs: number, attempt: number, maxRetries: number): string =>
+    `${retryStatusMessages[kind] ?? 'Falha na chamada da API.'} Tentando novamente em ${Math.ceil(delayMs / 1000)}s... (${attempt}/${maxRetries})`;
@@ -0,0 +1,98 @@
+import { AllContentResponse, Creation, GenerationParams, LengthTrail } from "../types";
+import { revisionFields, withBaselineRevisions } from "./revisions";
+
+/** How long the working state must stay unchanged before it is saved. */
+export const AUTOSAVE_DELAY_MS = 1500;
+
+const WORKING_DRAFT_KEY = 'workingDraft';
+
+/**
+ * Everything on screen for the creation being worked on: the form inputs and the results.
+ * It is kept in localStorage so that nothing is lost on a reload, even before the first generation.
+ */
+export interface WorkingDraft {
+    /** The saved creation being edited, or null when nothing was generated yet. */
+    creationId: string | null;
+    params: GenerationParams;
+    outputs: AllContentResponse;
+    lengthTrail?: LengthTrail;
+}
+
+/**
+ * Loads the working draft left by the last session.
+ * @returns The draft, or null if there is none or it cannot be read.
+ */
+export const loadWorkingDraft = (): WorkingDraft | null => {
+    const saved = localStorage.getItem(WORKING_DRAFT_KEY);
+    if (saved) {
+        try {
+            const parsed = JSON.parse(saved);
+            if (parsed && typeof parsed === 'object' && parsed.params && parsed.outputs) {
+                return { creationId: parsed.creationId ?? null, params: parsed.params, outputs: parsed.outputs, lengthTrail: parsed.lengthTrail };
+            }
+        } catch (e) {
+            console.error("Failed to parse the working draft from localStorage", e);
+        }
+    }
+    return null;
+};
+
+/**
+ * Saves the working draft.
+ * @param draft The current working state.
+ * @returns False if the browser storage refused it, e.g. because it is full.
+ */
+export const saveWorkingDraft = (draft: WorkingDraft): boolean => {
+    try {
+        localStorage.setItem(WORKING_DRAFT_KEY, JSON.stringify(draft));
+        return true;
+    } catch (e) {
+        console.error("Failed to save the working draft", e);
+        return false;
+    }
+};
+
+/**
+ * Tells whether the working state holds changes that the saved creation does not have yet.
+ * @param creation The creation as saved in the history.
+ * @param draft The current working state.
+ */
+export const hasUnsavedChanges = (creation: Creation, draft: WorkingDraft): boolean =>
+    JSON.stringify(draft.params) !== JSON.stringify(creation.params)
+    || JSON.stringify(draft.outputs) !== JSON.stringify(creation.outputs)
+    || JSON.stringify(draft.lengthTrail) !== JSON.stringify(creation.lengthTrail);
+
+/**
+ * Writes the working state into the saved creation, keeping its usage and revisions. Edits are
+ * not revisions until the user leaves the field, but a result that had none keeps its old value.
+ * @param creation The creation as saved in the history.
+ * @param draft The current working state.
+ * @returns The updated creation.
+ */
+export const applyWorkingDraft = (creation: Creation, draft: WorkingDraft): Creation => {
+    const changedFields = revisionFields.filter(field => JSON.stringify(draft.outputs[field]) !== JSON.stringify(creation.outputs[field]));
+    return {
+        ...creation,
+        params: draft.params,
+        outputs: draft.outputs,
+        lengthTrail: draft.lengthTrail,
+        revisions: withBaselineRevisions(creation, changedFields),
+        updatedAt: Date.now(),
+    };
+};
+
+/**
+ * Writes the working state into its creation in the history.
+ * @param history The saved creations.
+ * @param draft The current working state.
+ * @returns The updated history, or the same array when the creation is missing or already up to date.
+ */
+export const applyDraftToHistory = (history: Creation[], draft: WorkingDraft): Creation[] => {
+    const index = history.findIndex(creation => creation.id === draft.creationId);
+    if (index === -1 || !hasUnsavedChanges(history[index], draft)) {
+        return history;
+    }
+    const updated = [...history];
+    updated[index] = applyWorkingDraft(history[index], draft);
+    return updated;
+};
@@ -0,0 +1,173 @@
+/** Languages with book names, keyed by the first part of the language code. */
+export type BookLanguage = 'pt' | 'en' | 'es' | 'fr' | 'de';
+
+/**
+ * Book names of one language separated by "|": the first is the name shown to the user,
+ * the others are accepted abbreviations. In numbered books "#" stands for the number.
+ */
+type BookNames = Record<BookLanguage, string>;
+
+export interface BibleBook {
+    /** Three-character code, used as the key of the bundled Bible texts. */
+    id: string;
+    /** Largest chapter count among the supported traditions (Joel has 4 chapters in some of them). */
+    chapters: number;
+    names: BookNames;
+}
+
+export interface BibleTranslation {
+    name: string;
+    /** File served from `public/bible`, with the verses of each book as `{ [id]: string[][] }`. */
+    file: string;
+}
+
+const DEFAULT_LANGUAGE: BookLanguage = 'pt';
+
+const singleBooks: [string, number, BookNames][] = [
+    ['GEN', 50, { pt: 'Gênesis|Gn|Gên', en: 'Genesis|Gen|Gn', es: 'Génesis|Gn|Gén', fr: 'Genèse|Gn|Gen', de: 'Genesis|1 Mose|1Mo|Gen' }],
+    ['EXO', 40, { pt: 'Êxodo|Ex|Êx', en: 'Exodus|Exod|Ex', es: 'Éxodo|Ex|Éx', fr: 'Exode|Ex', de: 'Exodus|2 Mose|2Mo|Ex' }],
+    ['LEV', 27, { pt: 'Levítico|Lv', en: 'Leviticus|Lev|Lv', es: 'Levítico|Lv|Lev', fr: 'Lévitique|Lv|Lév', de: 'Levitikus|3 Mose|3Mo|Lev' }],
+    ['NUM', 36, { pt: 'Números|Nm', en: 'Numbers|Num|Nm', es: 'Números|Nm|Núm', fr: 'Nombres|Nb|Nomb', de: 'Numeri|4 Mose|4Mo|Num' }],
+    ['DEU', 34, { pt: 'Deuteronômio|Dt', en: 'Deuteronomy|Deut|Dt', es: 'Deuteronomio|Dt', fr: 'Deutéronome|Dt', de: 'Deuteronomium|5 Mose|5Mo|Dtn' }],
+    ['JOS', 24, { pt: 'Josué|Js', en: 'Joshua|Josh|Jos', es: 'Josué|Jos', fr: 'Josué|Jos', de: 'Josua|Jos' }],
+    ['JDG', 21, { pt: 'Juízes|Jz', en: 'Judges|Judg|Jdg', es: 'Jueces|Jue', fr: 'Juges|Jg', de: 'Richter|Ri' }],
+    ['RUT', 4, { pt: 'Rute|Rt', en: 'Ruth|Rth|Ru', es: 'Rut|Rt', fr: 'Ruth|Rt', de: 'Rut|Ruth|Rt' }],
+    ['EZR', 10, { pt: 'Esdras|Ed', en: 'Ezra|Ezr', es: 'Esdras|Esd', fr: 'Esdras|Esd', de: 'Esra|Esr' }],
+    ['NEH', 13, { pt: 'Neemias|Ne', en: 'Nehemiah|Neh', es: 'Nehemías|Neh', fr: 'Néhémie|Né|Ne', de: 'Nehemia|Neh' }],
+    ['EST', 10, { pt: 'Ester|Et', en: 'Esther|Esth|Est', es: 'Ester|Est', fr: 'Esther|Est', de: 'Ester|Esther|Est' }],
+    ['JOB', 42, { pt: 'Jó', en: 'Job', es: 'Job', fr: 'Job', de: 'Hiob|Ijob|Hi' }],
+    ['PSA', 150, { pt: 'Salmos|Salmo|Sl', en: 'Psalms|Psalm|Ps|Psa', es: 'Salmos|Salmo|Sal', fr: 'Psaumes|Psaume|Ps', de: 'Psalmen|Psalm|Ps' }],
+    ['PRO', 31, { pt: 'Provérbios|Pv|Pr', en: 'Proverbs|Prov|Pr', es: 'Proverbios|Pr|Prov', fr: 'Proverbes|Pr|Prov', de: 'Sprüche|Sprichwörter|Spr' }],
+    ['ECC', 12, { pt: 'Eclesiastes|Ec', en: 'Ecclesiastes|Eccl|Ecc', es: 'Eclesiastés|Ec|Ecl', fr: 'Ecclésiaste|Qohéleth|Ec|Qo', de: 'Prediger|Kohelet|Pred|Koh' }],
+    ['SNG', 8, { pt: 'Cânticos|Cântico dos Cânticos|Cantares|Ct', en: 'Song of Solomon|Song of Songs|Song|SS', es: 'Cantares|Cantar de los Cantares|Cnt|Cant', fr: 'Cantique des Cantiques|Cantique|Ct', de: 'Hoheslied|Hohelied|Hld' }],
+    ['ISA', 66, { pt: 'Isaías|Is', en: 'Isaiah|Isa|Is', es: 'Isaías|Is', fr: 'Ésaïe|Isaïe|Es|Is', de: 'Jesaja|Jes' }],
+    ['JER', 52, { pt: 'Jeremias|Jr', en: 'Jeremiah|Jer', es: 'Jeremías|Jer|Jr', fr: 'Jérémie|Jr|Jér', de: 'Jeremia|Jer' }],
+    ['LAM', 5, { pt: 'Lamentações|Lm', en: 'Lamentations|Lam', es: 'Lamentaciones|Lm|Lam', fr: 'Lamentations|Lm|Lam', de: 'Klagelieder|Klgl' }],
+    ['EZK', 48, { pt: 'Ezequiel|Ez', en: 'Ezekiel|Ezek|Ezk', es: 'Ezequiel|Ez', fr: 'Ézéchiel|Ez|Éz', de: 'Hesekiel|Ezechiel|Hes|Ez' }],
+    ['DAN', 12, { pt: 'Daniel|Dn', en: 'Daniel|Dan|Dn', es: 'Daniel|Dn|Dan', fr: 'Daniel|Dn|Dan', de: 'Daniel|Dan|Dn' }],
+    ['HOS', 14, { pt: 'Oseias|Oséias|Os', en: 'Hosea|Hos', es: 'Oseas|Os', fr: 'Osée|Os', de: 'Hosea|Hos' }],
+    ['JOL', 4, { pt: 'Joel|Jl', en: 'Joel|Jl', es: 'Joel|Jl', fr: 'Joël|Jl', de: 'Joel|Joël' }],
+    ['AMO', 9, { pt: 'Amós|Am', en: 'Amos|Am', es: 'Amós|Am', fr: 'Amos|Am', de: 'Amos|Am' }],
+    ['OBA', 1, { pt: 'Obadias|Ob', en: 'Obadiah|Obad|Ob', es: 'Abdías|Abd', fr: 'Abdias|Ab', de: 'Obadja|Obd' }],
+    ['JON', 4, { pt: 'Jonas|Jn', en: 'Jonah|Jon', es: 'Jonás|Jon', fr: 'Jonas|Jon', de: 'Jona|Jon' }],
+    ['MIC', 7, { pt: 'Miqueias|Miquéias|Mq', en: 'Micah|Mic', es: 'Miqueas|Mi|Miq', fr: 'Michée|Mi', de: 'Micha|Mi' }],
+    ['NAM', 3, { pt: 'Naum|Na', en: 'Nahum|Nah', es: 'Nahúm|Nah', fr: 'Nahum|Na', de: 'Nahum|Nah' }],
+    ['HAB', 3, { pt: 'Habacuque|Hc', en: 'Habakkuk|Hab', es: 'Habacuc|Hab', fr: 'Habacuc|Ha', de: 'Habakuk|Hab' }],
+    ['ZEP', 3, { pt: 'Sofonias|Sf', en: 'Zephaniah|Zeph', es: 'Sofonías|Sof', fr: 'Sophonie|So', de: 'Zefanja|Zephanja|Zef' }],
+    ['HAG', 2, { pt: 'Ageu|Ag', en: 'Haggai|Hag', es: 'Hageo|Hag', fr: 'Aggée|Ag', de: 'Haggai|Hag' }],
+    ['ZEC', 14, { pt: 'Zacarias|Zc', en: 'Zechariah|Zech', es: 'Zacarías|Zac', fr: 'Zacharie|Za', de: 'Sacharja|Sach' }],
+    ['MAL', 4, { pt: 'Malaquias|Ml', en: 'Malachi|Mal', es: 'Malaquías|Mal', fr: 'Malachie|Ml', de: 'Maleachi|Mal' }],
+    ['MAT', 28, { pt: 'Mateus|Mt', en: 'Matthew|Matt|Mt', es: 'Mateo|Mt', fr: 'Matthieu|Mt', de: 'Matthäus|Mt' }],
+    ['MRK', 16, { pt: 'Marcos|Mc', en: 'Mark|Mk|Mrk', es: 'Marcos|Mc|Mr', fr: 'Marc|Mc', de: 'Markus|Mk' }],
+    ['LUK', 24, { pt: 'Lucas|Lc', en: 'Luke|Lk', es: 'Lucas|Lc', fr: 'Luc|Lc', de: 'Lukas|Lk' }],
+    ['JHN', 21, { pt: 'João|Jo', en: 'John|Jn|Jhn', es: 'Juan|Jn', fr: 'Jean|Jn', de: 'Johannes|Joh' }],
+    ['ACT', 28, { pt: 'Atos|At', en: 'Acts|Ac', es: 'Hechos|Hch', fr: 'Actes|Ac', de: 'Apostelgeschichte|Apg' }],
+    ['ROM', 16, { pt: 'Romanos|Rm', en: 'Romans|Rom|Rm', es: 'Romanos|Ro|Rom', fr: 'Romains|Rm', de: 'Römer|Röm' }],
+    ['GAL', 6, { pt: 'Gálatas|Gl', en: 'Galatians|Gal', es: 'Gálatas|Gá|Gál', fr: 'Galates|Ga', de: 'Galater|Gal' }],
+    ['EPH', 6, { pt: 'Efésios|Ef', en: 'Ephesians|Eph', es: 'Efesios|Ef', fr: 'Éphésiens|Ep|Ép', de: 'Epheser|Eph' }],
+    ['PHP', 4, { pt: 'Filipenses|Fp', en: 'Philippians|Phil|Php', es: 'Filipenses|Flp|Fil', fr: 'Philippiens|Ph', de: 'Philipper|Phil' }],
+    ['COL', 4, { pt: 'Colossenses|Cl', en: 'Colossians|Col', es: 'Colosenses|Col', fr: 'Colossiens|Col', de: 'Kolosser|Kol' }],
+    ['TIT', 3, { pt: 'Tito|Tt', en: 'Titus|Tit', es: 'Tito|Tit', fr: 'Tite|Tt', de: 'Titus|Tit' }],
+    ['PHM', 1, { pt: 'Filemom|Fm', en: 'Philemon|Phlm|Phm', es: 'Filemón|Flm', fr: 'Philémon|Phm', de: 'Philemon|Phlm' }],
+    ['HEB', 13, { pt: 'Hebreus|Hb', en: 'Hebrews|Heb', es: 'Hebreos|He|Heb', fr: 'Hébreux|He|Hé', de: 'Hebräer|Hebr' }],
+    ['JAS', 5, { pt: 'Tiago|Tg', en: 'James|Jas|Jm', es: 'Santiago|Stg', fr: 'Jacques|Jc', de: 'Jakobus|Jak' }],
+    ['JUD', 1, { pt: 'Judas|Jd', en: 'Jude|Jud', es: 'Judas|Jud', fr: 'Jude', de: 'Judas|Jud' }],
+    ['REV', 22, { pt: 'Apocalipse|Ap', en: 'Revelation|Rev|Rv', es: 'Apocalipsis|Ap', fr: 'Apocalypse|Ap', de: 'Offenbarung|Offb' }],
+];
+
+/** Books sharing a name and told apart by their number, such as 1 and 2 Samuel. */
+const numberedBooks: [string[], number[], BookNames][] = [
+    [['1SA', '2SA'], [31, 24], { pt: '# Samuel|#Sm', en: '# Samuel|#Sam|#Sa', es: '# Samuel|#S|#Sam', fr: '# Samuel|#S|#Sam', de: '# Samuel|#Sam' }],
+    [['1KI', '2KI'], [22, 25], { pt: '# Reis|#Rs', en: '# Kings|#Kgs|#Ki', es: '# Reyes|#R|#Re', fr: '# Rois|#R', de: '# Könige|#Kön' }],
+    [['1CH', '2CH'], [29, 36], { pt: '# Crônicas|#Cr', en: '# Chronicles|#Chr|#Ch', es: '# Crónicas|#Cr|#Cró', fr: '# Chroniques|#Ch', de: '# Chronik|#Chr' }],
+    [['1CO', '2CO'], [16, 13], { pt: '# Coríntios|#Co', en: '# Corinthians|#Cor|#Co', es: '# Corintios|#Co|#Cor', fr: '# Corinthiens|#Co', de: '# Korinther|#Kor' }],
+    [['1TH', '2TH'], [5, 3], { pt: '# Tessalonicenses|#Ts', en: '# Thessalonians|#Thess|#Th', es: '# Tesalonicenses|#Ts|#Tes', fr: '# Thessaloniciens|#Th', de: '# Thessalonicher|#Thess' }],
+    [['1TI', '2TI'], [6, 4], { pt: '# Timóteo|#Tm', en: '# Timothy|#Tim|#Ti', es: '# Timoteo|#Ti|#Tim', fr: '# Timothée|#Tm', de: '# Timotheus|#Tim' }],
+    [['1PE', '2PE'], [5, 3], { pt: '# Pedro|#Pe', en: '# Peter|#Pet|#Pt', es: '# Pedro|#P|#Pe', fr: '# Pierre|#P', de: '# Petrus|#Petr' }],
+    [['1JN', '2JN', '3JN'], [5, 1, 1], { pt: '# João|#Jo', en: '# John|#Jn', es: '# Juan|#Jn', fr: '# Jean|#Jn', de: '# Johannes|#Joh' }],
+];
+
+export const bibleBooks: BibleBook[] = [
+    ...singleBooks.map(([id, chapters, names]) => ({ id, chapters, names })),
+    ...numberedBooks.flatMap(([ids, chapters, names]) => ids.map((id, index) => ({
+        id,
+        chapters: chapters[index],
+        names: Object.fromEntries(Object.entries(names).map(([language, list]) => [language, list.replace(/#/g, String(index + 1))])) as BookNames,
+    }))),
+];
+
+/** Public-domain translation checked for each language. */
+export const bibleTranslations: Record<BookLanguage, BibleTranslation> = {
+    pt: { name: 'Almeida Revista e Corrigida (1911)', file: 'almeida1911.json' },
+    en: { name: 'King James Version', file: 'kjv.json' },
+    es: { name: 'Reina-Valera (1909)', file: 'rv1909.json' },
+    fr: { name: 'Louis Segond (1910)', file: 'lsg1910.json' },
+    de: { name: 'Luther (1912)', file: 'luther1912.json' },
+};
+
+const ordinalWords: [RegExp, string][] = [
+    [/^(primeir[ao]|primer[ao]?|first|premi[eè]re?|erste[nrs]?)\s+/, '1'],
+    [/^(segund[ao]|second|deuxi[eè]me|zweite[nrs]?)\s+/, '2'],
+    [/^(terceir[ao]|tercer[ao]?|third|troisi[eè]me|dritte[nrs]?)\s+/, '3'],
+];
+
+/**
+ * Reduces a book name as written to a lookup key: lower case, without spaces and periods,
+ * with its number as a digit ("I Coríntios", "1ª Coríntios" and "Primeira Coríntios" become "1coríntios").
+ */
+export const toBookKey = (name: string): string => {
+    let key = name.trim().replace(/^(I{1,3})\s+/, roman => `${roman.trim().length} `).toLowerCase();
+    for (const [pattern, digit] of ordinalWords) {
+        key = key.replace(pattern, `${digit} `);
+    }
+    return key
+        .replace(/^(\d)(?:(?:ª|º|st|nd|rd|er|re|ère|e)(?=\s)|\.)?/, '$1')
+        .replace(/[\s.]/g, '');
+};
+
+/** Removes the accents of a key, so that "genesis" also finds "gênesis". */
+export const stripAccents = (text: string): string => text.normalize('NFD').replace(/\p{M}/gu, '');
+
+export const getBookLanguage = (language: string): BookLanguage => {
+    const prefix = language.slice(0, 2) as BookLanguage;
+    return prefix in bibleTranslations ? prefix : DEFAULT_LANGUAGE;
+};
+
+const aliasCache = new Map<BookLanguage, Map<string, BibleBook>>();
+
+/**
+ * Returns the book of every name and abbreviation of a language, keyed by `toBookKey`.
+ * Names without accents are accepted too, unless they would clash with another book
+ * (in Portuguese "Jo" is John and "Jó" is Job).
+ */
+export const getBookAliases = (language: string): Map<string, BibleBook> => {
+    const bookLanguage = getBookLanguage(language);
+    const cached = aliasCache.get(bookLanguage);
+    if (cached) return cached;
+
+    const aliases = new Map<string, BibleBook>();
+    for (const book of bibleBooks) {
+        for (const name of book.names[bookLanguage].split('|')) {
+            aliases.set(toBookKey(name), book);
+        }
+    }
+    for (const [key, book] of Array.from(aliases)) {
+        const plain = stripAccents(key);
+        if (!aliases.has(plain)) {
+            aliases.set(plain, book);
+        }
+    }
+    aliasCache.set(bookLanguage, aliases);
+    return aliases;
+};
+
+export const getBookById = (id: string): BibleBook | undefined => bibleBooks.find(book => book.id === id);
+
+/**
+ * Returns the name of a book as shown to the user in a language.
+ */
+export const getBookName = (book: BibleBook, language: string): string =>
+    book.names[getBookLanguage(language)].split('|')[0];
+
+export const getBibleTranslation = (language: string): BibleTranslation =>
+    bibleTranslations[getBookLanguage(language)];
@@ -0,0 +1,91 @@
+import { CreationType, LengthUnit } from "../types";
+
+/** Names the icon of a creation type; the interface maps each name to its drawing. */
+export type CreationTypeIconName = 'bookOpen' | 'prayingHands' | 'sun' | 'listBullet' | 'userGroup' | 'faceSmile';
+
+export interface CreationTypeDefinition {
+    /** Name shown in the selector and as the title of the content card. */
+    label: string;
+    /** How the prompts name the type; the templates write it after "a" or "da". */
+    promptLabel: string;
+    icon: CreationTypeIconName;
+    /** Structure the content must follow, written into the content prompts. */
+    structureRules: string;
+    ideaPlaceholder: string;
+    /** Length applied when the user picks the type. */
+    defaultLength: { unit: LengthUnit; target: number };
+    /** Whether the main idea can be enhanced before generating. */
+    canEnhance: boolean;
+    /** Whether long targets are written in sections from an outline. */
+    supportsLongForm: boolean;
+}
+
+export const creationTypes: Record<CreationType, CreationTypeDefinition> = {
+    [CreationType.Story]: {
+        label: 'História Bíblica',
+        promptLabel: 'história bíblica',
+        icon: 'bookOpen',
+        structureRules: 'A história DEVE ser uma obra completa, com início, meio e fim bem definidos. A narrativa não pode ser interrompida ou parecer incompleta.',
+        ideaPlaceholder: 'Ex: A parábola do filho pródigo, mas contada pela perspectiva do irmão mais velho.',
+        defaultLength: { unit: LengthUnit.Characters, target: 1500 },
+        canEnhance: true,
+        supportsLongForm: true,
+    },
+    [CreationType.Prayer]: {
+        label: 'Oração',
+        promptLabel: 'oração',
+        icon: 'prayingHands',
+        structureRules: 'A oração DEVE ser completa, com invocação, desenvolvimento e conclusão com amém, em tom reverente e pessoal.',
+        ideaPlaceholder: 'Ex: Uma oração de gratidão pela família ao final do dia.',
+        defaultLength: { unit: LengthUnit.Characters, target: 1000 },
+        canEnhance: false,
+        supportsLongForm: false,
+    },
+    [CreationType.Devotional]: {
+        label: 'Devocional',
+        promptLabel: 'meditação devocional diária',
+        icon: 'sun',
+        structureRules: 'A meditação DEVE começar citando um versículo-base, seguir com uma reflexão aplicada ao dia a dia e terminar com uma breve oração.',
+        ideaPlaceholder: 'Ex: Confiar em Deus nas pequenas decisões, a partir de Provérbios 3:5-6.',
+        defaultLength: { unit: LengthUnit.Words, target: 350 },
+        canEnhance: false,
+        supportsLongForm: false,
+    },
+    [CreationType.SermonOutline]: {
+        label: 'Esboço de Sermão',
+        promptLabel: 'pregação em forma de esboço',
+        icon: 'listBullet',
+        structureRules: 'A pregação DEVE ser escrita em tópicos, não em prosa corrida: texto-base, introdução, de 3 a 4 pontos principais (cada um com subtópicos, versículos de apoio e uma aplicação) e conclusão com apelo.',
+        ideaPlaceholder: 'Ex: O bom pastor (João 10), para um culto de domingo à noite.',
+        defaultLength: { unit: LengthUnit.Words, target: 600 },
+        canEnhance: true,
+        supportsLongForm: false,
+    },
+    [CreationType.BibleStudy]: {
+        label: 'Estudo Bíblico',
+        promptLabel: 'lição de estudo bíblico para pequenos grupos',
+        icon: 'userGroup',
+        structureRules: 'A lição DEVE ter texto-base, contexto histórico, observações sobre o texto, de 5 a 8 perguntas para discussão em grupo, uma aplicação prática e uma sugestão de oração final.',
+        ideaPlaceholder: 'Ex: O fruto do Espírito em Gálatas 5, para um grupo de jovens.',
+        defaultLength: { unit: LengthUnit.Words, target: 900 },
+        canEnhance: true,
+        supportsLongForm: false,
+    },
+    [CreationType.ChildrensStory]: {
+        label: 'História Infantil',
+        promptLabel: 'história bíblica infantil',
+        icon: 'faceSmile',
+        structureRules: 'A história DEVE usar linguagem simples e frases curtas para crianças de 5 a 10 anos, ter início, meio e fim claros e terminar com uma lição explícita e carinhosa.',
+        ideaPlaceholder: 'Ex: Davi e Golias, mostrando que a coragem vem de confiar em Deus.',
+        defaultLength: { unit: LengthUnit.ReadingMinutes, target: 3 },
+        canEnhance: true,
+        supportsLongForm: false,
+    },
+};
+
+/**
+ * Returns the definition of a creation type, falling back to the story for
+ * unknown values such as creations saved by a newer version.
+ */
+export const getCreationTypeDefinition = (type: CreationType): CreationTypeDefinition =>
+    creationTypes[type] ?? creationTypes[CreationType.Story];
@@ -0,0 +1,105 @@
+import { DoctrinalProfile } from "../types";
+import { escapeRegExp } from "./regExp";
+
+export const emptyDoctrinalProfile: DoctrinalProfile = {
+    tradition: '',
+    preferredTranslation: '',
+    avoidTerms: [],
+    preferredTerms: [],
+    sensitiveTopics: [],
+};
+
+export enum DoctrinalFlagKind {
+    AvoidedTerm = 'avoidedTerm',
+    SensitiveTopic = 'sensitiveTopic',
+    /** A passage the AI review found in conflict with the profile. */
+    Conflict = 'conflict',
+}
+
+export interface DoctrinalFlag {
+    kind: DoctrinalFlagKind;
+    /** The passage of the content the flag refers to. */
+    excerpt: string;
+    /** Where the flagged words are in the content, when they could be found. */
+    start?: number;
+    end?: number;
+    message: string;
+    suggestion?: string;
+}
+
+/**
+ * Checks whether the profile has anything to apply.
+ */
+export const hasDoctrinalProfile = (profile: DoctrinalProfile | undefined): profile is DoctrinalProfile =>
+    !!profile && (
+        !!profile.tradition.trim() || !!profile.preferredTranslation.trim()
+        || profile.avoidTerms.length > 0 || profile.preferredTerms.length > 0 || profile.sensitiveTopics.length > 0
+    );
+
+/**
+ * Writes the profile as the guidelines given to the model.
+ * @param profile The doctrinal profile.
+ * @returns The guideline lines, or an empty string for an empty profile.
+ */
+export const formatDoctrinalProfile = (profile: DoctrinalProfile | undefined): string => {
+    if (!hasDoctrinalProfile(profile)) return '';
+    const lines: string[] = [];
+    if (profile.tradition.trim()) {
+        lines.push(`- Escreva de acordo com a tradição ${profile.tradition.trim()}, sem defender doutrinas que ela não sustenta.`);
+    }
+    if (profile.preferredTranslation.trim()) {
+        lines.push(`- Cite a Bíblia na tradução ${profile.preferredTranslation.trim()}, exceto nas passagens em que outra tradução for indicada.`);
+    }
+    if (profile.avoidTerms.length > 0) {
+        lines.push(`- Nunca use os termos: ${profile.avoidTerms.join(', ')}.`);
+    }
+    if (profile.preferredTerms.length > 0) {
+        lines.push(`- Prefira os termos: ${profile.preferredTerms.join(', ')}.`);
+    }
+    if (profile.sensitiveTopics.length > 0) {
+        lines.push(`- Trate com cuidado, sem tomar partido em controvérsias, os temas: ${profile.sensitiveTopics.join(', ')}.`);
+    }
+    return lines.join('\n');
+};
+
+/**
+ * Splits a comma- or line-separated list typed by the user, dropping empty entries.
+ */
+export const parseTermList = (value: string): string[] =>
+    Array.from(new Set(value.split(/[,\n]/).map(term => term.trim()).filter(Boolean)));
+
+/**
+ * Returns the sentence around a position, used as the excerpt of a flag.
+ */
+export const getSentenceAround = (text: string, start: number, end: number): string => {
+    const sentenceStart = Math.max(0, ...Array.from(text.slice(0, start).matchAll(/[.!?…\n]\s*/g), match => (match.index ?? 0) + match[0].length));
+    const after = text.slice(end).search(/[.!?…\n]/);
+    return text.slice(sentenceStart, after === -1 ? text.length : end + after + 1).trim();
+};
+
+/**
+ * Finds the words of the content that the profile asks to avoid or to handle with care.
+ * This local scan only sees the words themselves; doctrinal conflicts written in other
+ * words need the AI review.
+ * @param text The content to check.
+ * @param profile The doctrinal profile.
+ * @returns A flag per occurrence, in the order they appear.
+ */
+export const findProfileConflicts = (text: string, profile: DoctrinalProfile | undefined): DoctrinalFlag[] => {
+    if (!hasDoctrinalProfile(profile) || !text) return [];
+    const scan = (terms: string[], kind: DoctrinalFlagKind, describe: (term: string) => string): DoctrinalFlag[] =>
+        terms.flatMap(term => {
+            const pattern = new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(term).replace(/\s+/g, '\\s+')}(?![\\p{L}\\d])`, 'giu');
+            return Array.from(text.matchAll(pattern), match => {
+                const start = match.index ?? 0;
+                const end = start + match[0].length;
+                return { kind, excerpt: getSentenceAround(text, start, end), start, end, message: describe(term) };
+            });
+        });
+
+    const preferred = profile.preferredTerms.length > 0 ? ` Prefira: ${profile.preferredTerms.join(', ')}.` : '';
+    return [
+        ...scan(profile.avoidTerms, DoctrinalFlagKind.AvoidedTerm, term => `O perfil doutrinário pede para evitar "${term}".${preferred}`),
+        ...scan(profile.sensitiveTopics, DoctrinalFlagKind.SensitiveTopic, term => `"${term}" é um tema sensível no perfil doutrinário; revise o trecho antes de publicar.`),
+    ].sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+};
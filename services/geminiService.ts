@@ -1,334 +1,925 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { GenerationParams, AllContentResponse, CreationType } from "../types";
+import { GenerationParams, AllContentResponse, DoctrinalProfile, LengthUnit, ProviderSettings, Series, UsageRecord } from "../types";
+import { getProvider, JsonSchema, LlmProvider, LlmResponse } from "./llmProviders";
+import {
+    AiErrorKind, AiServiceError, GenerationCancelledError, RetryPolicies,
+    classifyError, computeRetryDelay, defaultRetryPolicies, getRetryStatusMessage
+} from "./aiErrors";
+import { PromptTemplateId, PromptTemplateOverrides, PromptValues, getTemplateText, renderTemplate } from "./promptTemplates";
+import { findInvalidProperties, matchesSchema } from "./schemaValidation";
+import { CacheSettings, buildCacheKey, getCachedResponse, setCachedResponse } from "./responseCache";
+import { LengthRange, getTargetAmount, getUnitName, measureLength } from "./lengthUnits";
+import { getLengthRange } from "./lengthPolicy";
+import { getCreationTypeDefinition } from "./creationTypes";
+import { formatPassagesForPrompt, withScriptureSection } from "./scripturePassages";
+import { DoctrinalFlag, DoctrinalFlagKind, formatDoctrinalProfile } from "./doctrinalProfile";
+import { EpisodeMemory, formatSeriesForPrompt, withEpisodeTitles, withSeriesTags } from "./series";
+
+const stringArraySchema: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 };
+
+export interface RequestOptions {
+    onStatusUpdate?: (status: string) => void;
+    signal?: AbortSignal;
+    retryPolicies?: Partial<RetryPolicies>;
+    /** Called with the token usage of every provider call, including retries and refinements. */
+    onUsage?: (record: UsageRecord) => void;
+    /** User edits of the prompt templates; the built-in text is used for the rest. */
+    promptTemplates?: PromptTemplateOverrides;
+    /** The ministry's doctrinal profile, applied to every prompt. */
+    doctrinalProfile?: DoctrinalProfile;
+    /** The series the content is an episode of; its memory is given as continuity context. */
+    series?: Series;
+    /** Local response cache; identical requests are answered from it when enabled. */
+    cache?: CacheSettings;
+    /** Forces a fresh call even when a cached response exists; the new response replaces it. */
+    bypassCache?: boolean;
+    onCacheHit?: (operation: string) => void;
+}
+
+export interface StreamingRequestOptions extends RequestOptions {
+    onContentChunk?: (contentSoFar: string) => void;
+    stopSignal?: AbortSignal;
+}
 
-const model = 'gemini-2.5-flash';
-const MAX_RETRIES = 3; // Total attempts will be MAX_RETRIES + 1
+/**
+ * Waits for the given delay, rejecting early if the signal is aborted.
+ */
+const sleep = (delay: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new GenerationCancelledError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new GenerationCancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
 
 /**
- * Creates a GoogleGenAI instance with the provided API key.
- * Throws an error if the API key is missing.
- * @param apiKey The user-provided Gemini API key.
- * @returns An instance of GoogleGenAI.
+ * Creates the provider for a call and reports the token usage of every response it returns.
+ * @param settings The user-selected provider settings.
+ * @param operation The name of the service operation, stored with the usage.
+ * @param options The request options holding the usage callback.
+ * @returns An LlmProvider that reports its usage.
  */
-const getAi = (apiKey: string): GoogleGenAI => {
-    if (!apiKey) {
-        // This error is a safeguard, but the UI should prevent calls without a saved API key.
-        throw new Error("A chave de API do Gemini é necessária.");
+const getTrackedProvider = (settings: ProviderSettings, operation: string, { onUsage }: RequestOptions): LlmProvider => {
+    const provider = getProvider(settings);
+    const report = (response: LlmResponse): LlmResponse => {
+        if (response.usage && onUsage) {
+            onUsage({ ...response.usage, timestamp: Date.now(), provider: settings.provider, model: settings.model, operation });
+        }
+        return response;
+    };
+    return {
+        generate: async (request) => report(await provider.generate(request)),
+        stream: async (request, onChunk, stopSignal) => report(await provider.stream(request, onChunk, stopSignal)),
+    };
+};
+
+/**
+ * Answers a request from the local cache when possible, otherwise runs it and stores the result.
+ * The key covers the provider, model, rendered prompt and response schema, so any change
+ * to the parameters, the modification or the prompt templates misses the cache.
+ * Responses of streams stopped by the user are partial and never stored.
+ * @param settings The user-selected provider settings.
+ * @param operation The name of the service operation.
+ * @param request The rendered prompt and response schema.
+ * @param options The request options holding the cache settings.
+ * @param compute Runs the request when the cache misses.
+ * @param onHit Replays a cached response, e.g. into the streaming view.
+ * @returns The cached or freshly generated result.
+ */
+const withCache = async <T>(
+    settings: ProviderSettings,
+    operation: string,
+    request: { prompt: string; responseSchema?: JsonSchema },
+    options: StreamingRequestOptions,
+    compute: () => Promise<T>,
+    onHit?: (cached: T) => void
+): Promise<T> => {
+    const { cache } = options;
+    if (!cache?.enabled) {
+        return compute();
+    }
+    const key = await buildCacheKey({ provider: settings.provider, baseUrl: settings.baseUrl, model: settings.model, operation, ...request });
+    if (key === null) {
+        return compute();
     }
-    return new GoogleGenAI({ apiKey });
+    if (!options.bypassCache) {
+        const cached = getCachedResponse<T>(key, cache);
+        if (cached !== undefined) {
+            if (options.onStatusUpdate) {
+                options.onStatusUpdate('Resposta reutilizada do cache local, sem nova chamada.');
+            }
+            options.onCacheHit?.(operation);
+            onHit?.(cached);
+            return cached;
+        }
+    }
+    const result = await compute();
+    if (!options.stopSignal?.aborted) {
+        setCachedResponse(key, result, cache);
+    }
+    return result;
 };
 
 /**
- * Helper to safely extract text from a Gemini response.
- * @param response The GenerateContentResponse from the API.
+ * Helper to safely extract text from a provider response.
+ * Throws an error if the response was blocked by the safety filters.
+ * @param response The LlmResponse from the provider.
  * @returns The response text.
  */
-const getText = (response: GenerateContentResponse): string => {
+const getText = (response: LlmResponse): string => {
+    if (response.blockReason) {
+        throw new AiServiceError(AiErrorKind.SafetyBlocked);
+    }
     return response.text;
 };
 
 /**
- * Helper to safely parse JSON from a Gemini response text.
- * @param response The GenerateContentResponse from the API.
+ * Helper to safely parse JSON from a provider response text.
+ * @param response The LlmResponse from the provider.
  * @returns The parsed JSON object.
  */
-const getJson = <T>(response: GenerateContentResponse): T => {
+const getJson = <T>(response: LlmResponse): T => {
+    const rawText = getText(response);
     try {
-        const text = getText(response).replace(/```json|```/g, '').trim();
+        const text = rawText.replace(/```json|```/g, '').trim();
         return JSON.parse(text) as T;
     } catch (e) {
-        console.error("Failed to parse JSON from Gemini response:", getText(response), e);
-        throw new Error("A resposta da IA não estava no formato JSON esperado.");
+        console.error("Failed to parse JSON from AI response:", rawText, e);
+        throw new AiServiceError(AiErrorKind.Parse);
     }
 };
 
 /**
- * Wraps a Gemini API call with a retry mechanism for overloaded errors.
+ * Parses a provider response and checks it against the schema it was requested with.
+ * A response that parses but breaks the schema is treated as a parse error, so it is retried.
+ * @param response The LlmResponse from the provider.
+ * @param schema The schema of the expected response.
+ * @returns The validated JSON value.
+ */
+const getValidJson = <T>(response: LlmResponse, schema: JsonSchema): T => {
+    const parsed = getJson<unknown>(response);
+    if (!matchesSchema(parsed, schema)) {
+        console.error("AI response does not match the expected schema:", parsed);
+        throw new AiServiceError(AiErrorKind.Parse, "A resposta da IA não seguiu o formato esperado. Tente gerar novamente.");
+    }
+    return parsed as T;
+};
+
+/**
+ * Reads the value of a string field from a JSON text that may still be streaming.
+ * Returns the characters decoded so far, or null if the field has not started yet.
+ * @param raw The partial JSON text.
+ * @param key The name of the string field.
+ * @returns The partial string value.
+ */
+const readPartialJsonString = (raw: string, key: string): string | null => {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(raw);
+    if (!match) {
+        return null;
+    }
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+    let value = '';
+    for (let i = match.index + match[0].length; i < raw.length; i++) {
+        const char = raw[i];
+        if (char === '"') {
+            break;
+        }
+        if (char !== '\\') {
+            value += char;
+            continue;
+        }
+        const next = raw[i + 1];
+        if (next === undefined) {
+            break;
+        }
+        if (next === 'u') {
+            const hex = raw.substring(i + 2, i + 6);
+            if (hex.length < 4) {
+                break;
+            }
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            value += escapes[next] ?? next;
+            i++;
+        }
+    }
+    return value;
+};
+
+/**
+ * Recovers what it can from a generate-all stream that the user stopped.
+ * The stream was stopped inside the last field, so closing its string and the object
+ * usually yields valid JSON. Otherwise only the partial content is kept.
+ * @param response The partial response of the stream.
+ * @returns The content package with empty values for the missing fields.
+ */
+const parseStoppedAllContent = (response: LlmResponse): AllContentResponse => {
+    const emptyPackage: AllContentResponse = { titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '', content: '' };
+    const rawText = getText(response).replace(/```json|```/g, '').replace(/\\(u[0-9a-fA-F]{0,3})?$/, '').trim();
+    try {
+        return { ...emptyPackage, ...JSON.parse(`${rawText}"}`) };
+    } catch {
+        return { ...emptyPackage, content: readPartialJsonString(rawText, 'content') ?? '' };
+    }
+};
+
+/** How much of the main content the metadata prompts receive as context. */
+const CONTEXT_EXCERPT_LENGTH = 2000;
+const THUMBNAIL_EXCERPT_LENGTH = 500;
+
+/** Stories at least this long are written in sections from an outline. */
+export const LONG_FORM_MIN_CHARS = 8000;
+export const LONG_FORM_MIN_WORDS = 1400;
+/** Approximate size of each section of a long-form story. */
+const LONG_FORM_SECTION_CHARS = 2000;
+const LONG_FORM_SECTION_WORDS = 350;
+const MIN_LONG_FORM_SECTIONS = 3;
+
+/** Number of field requests the parallel strategy keeps in flight at once. */
+export const PARALLEL_FIELD_CONCURRENCY = 3;
+
+/**
+ * Cuts the main content to the length used as context in the metadata prompts.
+ */
+const getContentExcerpt = (content: string, maxLength: number): string => content.substring(0, maxLength);
+
+/**
+ * Wraps a provider call with a retry mechanism driven by the error classification.
+ * Each kind of error follows its own policy; the call may include parsing so that
+ * malformed responses are retried too.
+ * Stops with a GenerationCancelledError as soon as the signal is aborted, including during backoff.
  * @param apiCall The function that makes the actual API call.
- * @param onStatusUpdate A callback to update the UI with the current status.
- * @returns A Promise that resolves with the API response.
- */
-const generateWithRetry = async (
-    apiCall: () => Promise<GenerateContentResponse>,
-    onStatusUpdate?: (status: string) => void
-): Promise<GenerateContentResponse> => {
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+ * @param options The status callback, abort signal and retry policy overrides for the request.
+ * @returns A Promise that resolves with the result of the call.
+ */
+const generateWithRetry = async <T>(
+    apiCall: () => Promise<T>,
+    { onStatusUpdate, signal, retryPolicies }: RequestOptions
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+            throw new GenerationCancelledError();
+        }
         try {
             return await apiCall();
-        } catch (error: any) {
-            const isOverloaded = 
-                (error.message?.includes('503') || 
-                 error.message?.toLowerCase().includes('overloaded') || 
-                 (error.cause as any)?.status === 'UNAVAILABLE');
-
-            if (isOverloaded && attempt < MAX_RETRIES) {
-                const delay = Math.pow(2, attempt + 1) * 1000; // Exponential backoff: 2s, 4s, 8s
-                const statusMessage = `O modelo está sobrecarregado. Tentando novamente em ${delay / 1000}s... (${attempt + 1}/${MAX_RETRIES})`;
-                console.warn(statusMessage, error);
-                if (onStatusUpdate) {
-                    onStatusUpdate(statusMessage);
-                }
-                await new Promise(resolve => setTimeout(resolve, delay));
-            } else {
-                console.error(`API call failed after ${attempt + 1} attempts.`, error);
-                const finalMessage = isOverloaded 
-                    ? "O modelo parece estar sobrecarregado. Por favor, tente novamente mais tarde." 
-                    : error.message || "Ocorreu um erro desconhecido na API.";
-                throw new Error(finalMessage);
+        } catch (error) {
+            if (signal?.aborted) {
+                throw new GenerationCancelledError();
+            }
+            const aiError = classifyError(error);
+            const policy = retryPolicies?.[aiError.kind] ?? defaultRetryPolicies[aiError.kind];
+
+            if (attempt >= policy.maxRetries) {
+                console.error(`API call failed after ${attempt + 1} attempts (${aiError.kind}).`, error);
+                throw aiError;
+            }
+            const delay = computeRetryDelay(policy, attempt, aiError.retryAfterMs);
+            const statusMessage = getRetryStatusMessage(aiError.kind, delay, attempt + 1, policy.maxRetries);
+            console.warn(statusMessage, error);
+            if (onStatusUpdate) {
+                onStatusUpdate(statusMessage);
             }
+            await sleep(delay, signal);
         }
     }
-    // This should be unreachable, but TypeScript requires a return path or throw.
-    throw new Error("Falha na chamada da API após múltiplas tentativas.");
 };
 
 
 /**
- * Creates a base prompt with shared context for all generation requests.
+ * Renders a prompt template with the shared context of the generation.
+ * Every template receives the generation parameters and the rendered base prompt.
+ * The doctrinal guidelines are added to the end of every prompt whose template
+ * does not place `{doctrinalProfile}` itself.
+ * @param id The template to render.
  * @param params The generation parameters.
- * @returns A base prompt string.
+ * @param extraValues Values specific to the request, such as the modification.
+ * @param options The user's template overrides, doctrinal profile and series.
+ * @returns The prompt text.
+ */
+const buildPrompt = (id: PromptTemplateId, params: GenerationParams, extraValues: PromptValues, options: Pick<RequestOptions, 'promptTemplates' | 'doctrinalProfile' | 'series'> = {}): string => {
+    const overrides = options.promptTemplates;
+    const doctrinalProfile = formatDoctrinalProfile(options.doctrinalProfile);
+    const range = getLengthRange(params);
+    const creationType = getCreationTypeDefinition(params.creationType);
+    const values: PromptValues = {
+        creationType: creationType.promptLabel,
+        structureRules: creationType.structureRules,
+        language: params.language,
+        mainPrompt: params.mainPrompt,
+        titlePrompt: params.titlePrompt,
+        descriptionPrompt: params.descriptionPrompt,
+        thumbnailPrompt: params.thumbnailPrompt,
+        minLength: range.min,
+        maxLength: range.max,
+        lengthUnit: getUnitName(range.unit),
+        modification: '',
+        passages: formatPassagesForPrompt(params.passages ?? [], params.language),
+        doctrinalProfile,
+        series: formatSeriesForPrompt(options.series, params.episodeNumber),
+        ...extraValues,
+    };
+    const baseTemplate = getTemplateText(PromptTemplateId.Base, overrides);
+    const template = getTemplateText(id, overrides);
+    const prompt = renderTemplate(template, { ...values, basePrompt: renderTemplate(baseTemplate, values) });
+    const placesProfile = (text: string) => /\{#?doctrinalProfile\}/.test(text);
+    const hasProfile = placesProfile(template) || (template.includes('{basePrompt}') && placesProfile(baseTemplate));
+    return doctrinalProfile && !hasProfile
+        ? `${prompt}\n\nDIRETRIZES DOUTRINÁRIAS (obrigatórias):\n${doctrinalProfile}`
+        : prompt;
+};
+
+/**
+ * Renders a template the way the service would, with sample values for the parts
+ * that only exist during a request (modification, generated content).
+ * @param id The template to preview.
+ * @param params The current generation parameters.
+ * @param overrides The template overrides to preview.
+ * @param doctrinalProfile The doctrinal profile applied to the prompts.
+ * @param series The series of the content, if any.
+ * @returns The rendered prompt.
  */
-const getBasePrompt = (params: GenerationParams): string => {
-    const creationType = params.creationType === CreationType.Story ? "história bíblica" : "oração";
-    return `Você é um assistente criativo especializado em criar conteúdo cristão inspirador no idioma ${params.language}.
-Tipo de Criação: ${creationType}.
-Ideia Principal: "${params.mainPrompt}".`;
+export const previewPrompt = (id: PromptTemplateId, params: GenerationParams, overrides?: PromptTemplateOverrides, doctrinalProfile?: DoctrinalProfile, series?: Series): string => {
+    const sampleText = '(texto gerado anteriormente)';
+    return buildPrompt(id, params, {
+        modification: '(modificação pedida pelo usuário)',
+        content: sampleText,
+        textToEdit: sampleText,
+        textLength: getLengthRange(params).max,
+        sectionCount: 5,
+        outline: '1. (título da seção)\n   - (acontecimento)',
+        sectionNumber: 2,
+        sectionTitle: '(título da seção)',
+        sectionBeats: '- (acontecimento)',
+        sectionMin: Math.round(getLengthRange(params).min / 5),
+        sectionMax: Math.round(getLengthRange(params).max / 5),
+        previousSummary: '(resumo das seções anteriores)',
+    }, { promptTemplates: overrides, doctrinalProfile, series });
 };
 
 /**
- * Enhances the user's main prompt for a story.
+ * Enhances the user's main prompt, for the creation types that allow it.
  */
-export const enhanceStoryPrompt = async (apiKey: string, params: GenerationParams, onStatusUpdate?: (status: string) => void): Promise<string> => {
-    const ai = getAi(apiKey);
-    if (params.creationType !== CreationType.Story) {
+export const enhanceStoryPrompt = async (settings: ProviderSettings, params: GenerationParams, options: RequestOptions = {}): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'enhance', options);
+    if (!getCreationTypeDefinition(params.creationType).canEnhance) {
         return params.mainPrompt;
     }
-    const prompt = `Aprimore a seguinte ideia para uma história bíblica, tornando-a mais detalhada, evocativa e com maior potencial narrativo.
-Ideia Original: "${params.mainPrompt}"
-Retorne APENAS a nova ideia aprimorada, sem qualquer outro texto ou introdução.`;
+    const prompt = buildPrompt(PromptTemplateId.Enhance, params, {}, options);
 
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-    }), onStatusUpdate);
-    return getText(response);
+    return withCache(settings, 'enhance', { prompt }, options, async () => getText(
+        await generateWithRetry(() => provider.generate({ prompt, signal: options.signal }), options)
+    ));
 };
 
 /**
  * Generates the main content (story or prayer).
+ * When onContentChunk is given, the text is streamed and the stop signal can end it early.
  */
-export const generateContent = async (apiKey: string, params: GenerationParams, modification?: string, onStatusUpdate?: (status: string) => void): Promise<string> => {
-    const ai = getAi(apiKey);
-    const creationType = params.creationType === CreationType.Story ? "história bíblica" : "oração";
-    const minChars = Math.max(100, params.characterCount - 500);
-    const maxChars = params.characterCount + 500;
-
-    const prompt = `${getBasePrompt(params)}
-Sua tarefa é gerar o conteúdo principal para a ${creationType}.
-
-REGRAS ESTRITAS:
-1.  O texto final DEVE OBRIGATORIAMENTE ter entre ${minChars} e ${maxChars} caracteres. Esta é a regra mais importante.
-2.  Dentro dessa faixa de caracteres, a ${creationType} DEVE ser uma obra completa, com início, meio e fim bem definidos. A narrativa não pode ser interrompida ou parecer incompleta.
-3.  Responda apenas com o texto da ${creationType}, sem títulos, introduções ou qualquer outro texto.
+export const generateContent = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    modification?: string,
+    options: StreamingRequestOptions = {}
+): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'content', options);
+    const prompt = buildPrompt(PromptTemplateId.Content, params, { modification }, options);
+
+    const { onContentChunk, stopSignal, signal } = options;
+    return withCache(settings, 'content', { prompt }, options, async () => getText(
+        await generateWithRetry(() => onContentChunk
+            ? provider.stream({ prompt, signal }, onContentChunk, stopSignal)
+            : provider.generate({ prompt, signal }), options)
+    ), onContentChunk);
+};
 
-${modification ? `Modificação solicitada: "${modification}"` : ''}
+/**
+ * Refines existing text to fit a target character count by summarizing or expanding.
+ */
+export const refineTextLength = async (settings: ProviderSettings, params: GenerationParams, textToEdit: string, options: RequestOptions = {}): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'refine', options);
+    const range = getLengthRange(params);
+    const textLength = measureLength(textToEdit, range.unit);
+    const templateId = textLength > range.max ? PromptTemplateId.RefineShorten : PromptTemplateId.RefineExpand;
+    const prompt = buildPrompt(templateId, params, { textToEdit, textLength }, options);
+
+    return withCache(settings, 'refine', { prompt }, options, async () => getText(
+        await generateWithRetry(() => provider.generate({ prompt, signal: options.signal }), options)
+    ));
+};
 
-Cumpra rigorosamente todas as regras acima.`;
 
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-    }), onStatusUpdate);
-    return getText(response);
+interface OutlineSection {
+    title: string;
+    beats: string[];
+}
+
+interface WrittenSection {
+    content: string;
+    summary: string;
+}
+
+const outlineSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        sections: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string', minLength: 1, description: 'Título curto da seção.' },
+                    beats: { ...stringArraySchema, description: 'De 3 a 5 acontecimentos da seção, em ordem.' },
+                },
+                required: ['title', 'beats'],
+            },
+        },
+    },
+    required: ['sections'],
 };
 
 /**
- * Refines existing text to fit a target character count by summarizing or expanding.
+ * Checks whether the content is long enough to be written in sections from an outline.
+ * Only the types that support it qualify; the others are always written in a single call.
  */
-export const refineTextLength = async (apiKey: string, params: GenerationParams, textToEdit: string, onStatusUpdate?: (status: string) => void): Promise<string> => {
-    const ai = getAi(apiKey);
-    const creationType = params.creationType === CreationType.Story ? "história bíblica" : "oração";
-    const minChars = Math.max(100, params.characterCount - 500);
-    const maxChars = params.characterCount + 500;
+export const isLongForm = (params: GenerationParams): boolean => {
+    if (!getCreationTypeDefinition(params.creationType).supportsLongForm) {
+        return false;
+    }
+    const { amount, unit } = getTargetAmount(params);
+    return amount >= (unit === LengthUnit.Characters ? LONG_FORM_MIN_CHARS : LONG_FORM_MIN_WORDS);
+};
 
-    const isTooLong = textToEdit.length > maxChars;
+/**
+ * Returns how many sections a long-form story is planned with.
+ */
+const getSectionCount = (params: GenerationParams): number => {
+    const { amount, unit } = getTargetAmount(params);
+    const sectionSize = unit === LengthUnit.Characters ? LONG_FORM_SECTION_CHARS : LONG_FORM_SECTION_WORDS;
+    return Math.max(MIN_LONG_FORM_SECTIONS, Math.round(amount / sectionSize));
+};
 
-    const taskInstruction = isTooLong
-        ? `Sua tarefa é RESUMIR o texto a seguir. O resumo deve capturar a essência da ${creationType}, mantendo uma estrutura narrativa clara com início, meio e fim.`
-        : `Sua tarefa é EXPANDIR o texto a seguir. Adicione detalhes descritivos, aprofunde os pensamentos ou diálogos para enriquecer a narrativa sem alterar a história central.`;
+/**
+ * Plans a long-form story as a list of sections with their beats.
+ */
+const generateOutline = async (settings: ProviderSettings, params: GenerationParams, modification: string | undefined, options: RequestOptions): Promise<OutlineSection[]> => {
+    const provider = getTrackedProvider(settings, 'outline', options);
+    const prompt = buildPrompt(PromptTemplateId.Outline, params, { modification, sectionCount: getSectionCount(params) }, options);
+
+    const { sections } = await withCache(settings, 'outline', { prompt, responseSchema: outlineSchema }, options, () => generateWithRetry(async () => getValidJson<{ sections: OutlineSection[] }>(
+        await provider.generate({ prompt, responseSchema: outlineSchema, signal: options.signal }),
+        outlineSchema
+    ), options));
+    return sections;
+};
 
-    const prompt = `${taskInstruction}
+/**
+ * Writes one section of a long-form story against its share of the length band.
+ * @param outline The planned sections.
+ * @param index The position of the section to write.
+ * @param previousSummaries The summaries of the sections already written.
+ * @param range The length band of the whole story.
+ * @returns The text of the section and a summary for the next ones.
+ */
+const generateSection = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    outline: OutlineSection[],
+    index: number,
+    previousSummaries: string[],
+    range: LengthRange,
+    modification: string | undefined,
+    options: RequestOptions
+): Promise<WrittenSection> => {
+    const provider = getTrackedProvider(settings, 'section', options);
+    const section = outline[index];
+    const sectionMin = Math.round(range.min / outline.length);
+    const sectionMax = Math.round(range.max / outline.length);
+    const unitName = getUnitName(range.unit);
+    const prompt = buildPrompt(PromptTemplateId.Section, params, {
+        modification,
+        outline: outline.map((item, i) => `${i + 1}. ${item.title}\n${item.beats.map(beat => `   - ${beat}`).join('\n')}`).join('\n'),
+        sectionCount: outline.length,
+        sectionNumber: index + 1,
+        sectionTitle: section.title,
+        sectionBeats: section.beats.map(beat => `- ${beat}`).join('\n'),
+        sectionMin,
+        sectionMax,
+        previousSummary: previousSummaries.join('\n'),
+    }, options);
+    const sectionSchema: JsonSchema = {
+        type: 'object',
+        properties: {
+            content: { type: 'string', minLength: 1, description: `O texto da seção, com entre ${sectionMin} e ${sectionMax} ${unitName}.` },
+            summary: { type: 'string', minLength: 1, description: 'Resumo de 2 a 3 frases do que acontece na seção.' },
+        },
+        required: ['content', 'summary'],
+    };
+
+    return withCache(settings, 'section', { prompt, responseSchema: sectionSchema }, options, () => generateWithRetry(async () => getValidJson<WrittenSection>(
+        await provider.generate({ prompt, responseSchema: sectionSchema, signal: options.signal }),
+        sectionSchema
+    ), options));
+};
 
-Contexto Original:
-- Tipo de Criação: ${creationType}
-- Ideia Principal: "${params.mainPrompt}"
-- Idioma: ${params.language}
+/**
+ * Revises the joins of a story written in sections so that it reads as a single text.
+ */
+const smoothLongFormContent = async (settings: ProviderSettings, params: GenerationParams, textToEdit: string, options: RequestOptions): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'smooth', options);
+    const prompt = buildPrompt(PromptTemplateId.Smooth, params, { textToEdit }, options);
 
-Texto Original (Comprimento: ${textToEdit.length} caracteres):
----
-${textToEdit}
----
+    return withCache(settings, 'smooth', { prompt }, options, async () => getText(
+        await generateWithRetry(() => provider.generate({ prompt, signal: options.signal }), options)
+    ));
+};
 
-REGRAS ESTRITAS E OBRIGATÓRIAS:
-1.  O resultado final DEVE ter entre ${minChars} e ${maxChars} caracteres. Esta é a prioridade máxima.
-2.  A ${creationType} deve permanecer completa e coerente.
-3.  Retorne APENAS o texto finalizado, sem nenhuma explicação, introdução ou comentário.`;
+/**
+ * Generates a long story in steps: an outline with beats, then each section against its own
+ * length budget with a summary of the previous ones, then a pass that smooths the joins.
+ * Takes the same arguments as generateContent. The stitched text is reported through
+ * onContentChunk after each section, and the stop signal ends the writing between sections.
+ */
+export const generateLongFormContent = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    modification?: string,
+    options: StreamingRequestOptions = {}
+): Promise<string> => {
+    const { onStatusUpdate, onContentChunk, stopSignal } = options;
+    onStatusUpdate?.('Criando o roteiro do texto longo...');
+    const outline = await generateOutline(settings, params, modification, options);
+    const range = getLengthRange(params);
+
+    const sections: string[] = [];
+    const summaries: string[] = [];
+    for (let index = 0; index < outline.length && !stopSignal?.aborted; index++) {
+        onStatusUpdate?.(`Seção ${index + 1}/${outline.length}: escrevendo "${outline[index].title}"...`);
+        const written = await generateSection(settings, params, outline, index, summaries, range, modification, options);
+        sections.push(written.content.trim());
+        summaries.push(`Seção ${index + 1}: ${written.summary}`);
+        onContentChunk?.(sections.join('\n\n'));
+    }
 
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-    }), onStatusUpdate);
-    return getText(response);
+    const stitched = sections.join('\n\n');
+    if (stopSignal?.aborted) {
+        return stitched;
+    }
+    onStatusUpdate?.(`Revisando as transições entre as ${sections.length} seções...`);
+    return smoothLongFormContent(settings, params, stitched, options);
 };
 
-
 /**
  * Generates a list of titles.
  */
-export const generateTitles = async (apiKey: string, params: GenerationParams, modification?: string, onStatusUpdate?: (status: string) => void): Promise<string[]> => {
-    const ai = getAi(apiKey);
-    const prompt = `${getBasePrompt(params)}
-Gere 5 sugestões de títulos criativos e atraentes.
-${params.titlePrompt ? `Leve em consideração o seguinte desejo para o título: "${params.titlePrompt}"` : ''}
-${modification ? `Modificação solicitada: "${modification}"` : ''}
-Retorne a resposta como um array JSON de strings. Exemplo: ["Título 1", "Título 2"]`;
-
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
-        }
-    }), onStatusUpdate);
-
-    const parsed = getJson<string[]>(response);
-    return Array.isArray(parsed) ? parsed : [];
+export const generateTitles = async (settings: ProviderSettings, params: GenerationParams, content: string, modification?: string, options: RequestOptions = {}): Promise<string[]> => {
+    const provider = getTrackedProvider(settings, 'titles', options);
+    const prompt = buildPrompt(PromptTemplateId.Titles, params, { modification, content: getContentExcerpt(content, CONTEXT_EXCERPT_LENGTH) }, options);
+
+    const titles = await withCache(settings, 'titles', { prompt, responseSchema: stringArraySchema }, options, () => generateWithRetry(async () => getValidJson<string[]>(
+        await provider.generate({ prompt, responseSchema: stringArraySchema, signal: options.signal }),
+        stringArraySchema
+    ), options));
+    return withEpisodeTitles(titles, params, options.series);
 };
 
 /**
  * Generates a description for the content.
  */
-export const generateDescription = async (apiKey: string, params: GenerationParams, modification?: string, onStatusUpdate?: (status: string) => void): Promise<string> => {
-    const ai = getAi(apiKey);
-    const prompt = `${getBasePrompt(params)}
-Gere uma descrição concisa e envolvente (para redes sociais ou YouTube) com no máximo 250 caracteres.
-${params.descriptionPrompt ? `Leve em consideração o seguinte desejo para a descrição: "${params.descriptionPrompt}"` : ''}
-${modification ? `Modificação solicitada: "${modification}"` : ''}
-Retorne apenas o texto da descrição.`;
+export const generateDescription = async (settings: ProviderSettings, params: GenerationParams, content: string, modification?: string, options: RequestOptions = {}): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'description', options);
+    const prompt = buildPrompt(PromptTemplateId.Description, params, { modification, content: getContentExcerpt(content, CONTEXT_EXCERPT_LENGTH) }, options);
     
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-    }), onStatusUpdate);
-    return getText(response);
+    const description = await withCache(settings, 'description', { prompt }, options, async () => getText(
+        await generateWithRetry(() => provider.generate({ prompt, signal: options.signal }), options)
+    ));
+    return withScriptureSection(description, params);
 };
 
 /**
  * Generates SEO tags.
  */
-export const generateTags = async (apiKey: string, params: GenerationParams, modification?: string, onStatusUpdate?: (status: string) => void): Promise<string[]> => {
-    const ai = getAi(apiKey);
-    const prompt = `${getBasePrompt(params)}
-Gere uma lista de 10 a 15 tags de SEO relevantes.
-${modification ? `Modificação solicitada: "${modification}"` : ''}
-Retorne a resposta como um array JSON de strings. Exemplo: ["tag1", "tag2"]`;
+export const generateTags = async (settings: ProviderSettings, params: GenerationParams, content: string, modification?: string, options: RequestOptions = {}): Promise<string[]> => {
+    const provider = getTrackedProvider(settings, 'tags', options);
+    const prompt = buildPrompt(PromptTemplateId.Tags, params, { modification, content: getContentExcerpt(content, CONTEXT_EXCERPT_LENGTH) }, options);
     
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING }
-            }
-        }
-    }), onStatusUpdate);
-    const parsed = getJson<string[]>(response);
-    return Array.isArray(parsed) ? parsed : [];
+    const tags = await withCache(settings, 'tags', { prompt, responseSchema: stringArraySchema }, options, () => generateWithRetry(async () => getValidJson<string[]>(
+        await provider.generate({ prompt, responseSchema: stringArraySchema, signal: options.signal }),
+        stringArraySchema
+    ), options));
+    return withSeriesTags(tags, options.series);
 };
 
 /**
  * Generates a Call to Action.
  */
-export const generateCta = async (apiKey: string, params: GenerationParams, modification?: string, onStatusUpdate?: (status: string) => void): Promise<string> => {
-    const ai = getAi(apiKey);
-    const prompt = `${getBasePrompt(params)}
-Gere uma "Chamada para Ação" (Call to Action - CTA) curta e inspiradora que incentive o engajamento (curtir, comentar, compartilhar).
-${modification ? `Modificação solicitada: "${modification}"` : ''}
-Retorne apenas o texto do CTA.`;
+export const generateCta = async (settings: ProviderSettings, params: GenerationParams, content: string, modification?: string, options: RequestOptions = {}): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'cta', options);
+    const prompt = buildPrompt(PromptTemplateId.Cta, params, { modification, content: getContentExcerpt(content, CONTEXT_EXCERPT_LENGTH) }, options);
     
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-    }), onStatusUpdate);
-    return getText(response);
+    return withCache(settings, 'cta', { prompt }, options, async () => getText(
+        await generateWithRetry(() => provider.generate({ prompt, signal: options.signal }), options)
+    ));
 };
 
 /**
  * Generates a prompt for an image generation model to create a thumbnail.
  */
-export const generateThumbnailPrompt = async (apiKey: string, params: GenerationParams, content: string, modification?: string, onStatusUpdate?: (status: string) => void): Promise<string> => {
-    const ai = getAi(apiKey);
-    const prompt = `${getBasePrompt(params)}
-Com base no conteúdo gerado abaixo, crie um prompt detalhado para um gerador de imagens (como Midjourney ou DALL-E) para criar uma thumbnail.
-Conteúdo: "${content.substring(0, 500)}..."
-${params.thumbnailPrompt ? `Leve em consideração o seguinte desejo para a thumbnail: "${params.thumbnailPrompt}"` : ''}
-${modification ? `Modificação solicitada: "${modification}"` : ''}
-O prompt para a imagem deve ser em inglês, descritivo, e focado em elementos visuais, atmosfera e estilo.
-Retorne apenas o prompt para a imagem.`;
+export const generateThumbnailPrompt = async (settings: ProviderSettings, params: GenerationParams, content: string, modification?: string, options: RequestOptions = {}): Promise<string> => {
+    const provider = getTrackedProvider(settings, 'thumbnail', options);
+    const prompt = buildPrompt(PromptTemplateId.Thumbnail, params, { modification, content: getContentExcerpt(content, THUMBNAIL_EXCERPT_LENGTH) }, options);
+
+    return withCache(settings, 'thumbnail', { prompt }, options, async () => getText(
+        await generateWithRetry(() => provider.generate({ prompt, signal: options.signal }), options)
+    ));
+};
 
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-    }), onStatusUpdate);
-    return getText(response);
+const doctrinalReviewSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        conflicts: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    excerpt: { type: 'string', minLength: 1, description: 'O trecho exato do texto.' },
+                    issue: { type: 'string', minLength: 1, description: 'O conflito com o perfil doutrinário.' },
+                    suggestion: { type: 'string', description: 'Como reescrever o trecho.' },
+                },
+                required: ['excerpt', 'issue'],
+            },
+        },
+    },
+    required: ['conflicts'],
 };
 
 /**
- * Generates all content pieces in a single API call for efficiency.
+ * Asks the model to review the content against the doctrinal profile before it is published.
+ * @param settings The user-selected provider settings.
+ * @param params The generation parameters.
+ * @param content The content to review.
+ * @param options The request options, with the doctrinal profile.
+ * @returns The conflicting passages, located in the content when the model copied them exactly.
  */
-export const generateAllContent = async (apiKey: string, params: GenerationParams, onStatusUpdate?: (status: string) => void): Promise<AllContentResponse> => {
-    const ai = getAi(apiKey);
-    const creationType = params.creationType === CreationType.Story ? "história bíblica" : "oração";
-    const minChars = Math.max(100, params.characterCount - 500);
-    const maxChars = params.characterCount + 500;
-
-    const prompt = `${getBasePrompt(params)}
-
-Gere um pacote completo de conteúdo, seguindo as regras para cada item:
-1.  content: O conteúdo principal da ${creationType}. REGRAS: O texto final DEVE OBRIGATORIAMENTE ter entre ${minChars} e ${maxChars} caracteres. DEVE ser uma obra completa com início, meio e fim.
-2.  titles: 5 sugestões de títulos. ${params.titlePrompt ? `(Desejo: ${params.titlePrompt})` : ''}
-3.  description: Uma descrição de até 250 caracteres. ${params.descriptionPrompt ? `(Desejo: ${params.descriptionPrompt})` : ''}
-4.  tags: Uma lista de 10-15 tags de SEO.
-5.  cta: Uma "Chamada para Ação" (CTA).
-6.  thumbnailPrompt: Um prompt em inglês para gerar uma thumbnail, baseado na ${creationType}. ${params.thumbnailPrompt ? `(Desejo: ${params.thumbnailPrompt})` : ''}
-
-A resposta DEVE ser um objeto JSON bem formado com a estrutura definida no schema.`;
-
-    const response = await generateWithRetry(() => ai.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
+export const reviewDoctrine = async (settings: ProviderSettings, params: GenerationParams, content: string, options: RequestOptions = {}): Promise<DoctrinalFlag[]> => {
+    if (!formatDoctrinalProfile(options.doctrinalProfile)) {
+        return [];
+    }
+    const provider = getTrackedProvider(settings, 'doctrine', options);
+    const prompt = buildPrompt(PromptTemplateId.DoctrinalReview, params, { textToEdit: content }, options);
+
+    const { conflicts } = await withCache(settings, 'doctrine', { prompt, responseSchema: doctrinalReviewSchema }, options, () => generateWithRetry(async () => getValidJson<{ conflicts: { excerpt: string; issue: string; suggestion?: string }[] }>(
+        await provider.generate({ prompt, responseSchema: doctrinalReviewSchema, signal: options.signal }),
+        doctrinalReviewSchema
+    ), options));
+
+    return conflicts.map(({ excerpt, issue, suggestion }) => {
+        const start = content.indexOf(excerpt);
+        return {
+            kind: DoctrinalFlagKind.Conflict,
+            excerpt,
+            start: start >= 0 ? start : undefined,
+            end: start >= 0 ? start + excerpt.length : undefined,
+            message: issue,
+            suggestion: suggestion || undefined,
+        };
+    });
+};
+
+const episodeMemorySchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', minLength: 1, description: 'Resumo de 3 a 5 frases do episódio.' },
+        characters: {
+            type: 'array',
+            items: {
+                type: 'object',
                 properties: {
-                    content: { type: Type.STRING, description: `O conteúdo principal da ${creationType}. O texto DEVE OBRIGATORIAMENTE ter entre ${minChars} e ${maxChars} caracteres e ser uma obra completa e coerente, com início, meio e fim.` },
-                    titles: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Uma lista de 5 títulos sugeridos.' },
-                    description: { type: Type.STRING, description: 'Uma descrição para redes sociais.' },
-                    tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Uma lista de tags de SEO.' },
-                    cta: { type: Type.STRING, description: 'Uma chamada para ação.' },
-                    thumbnailPrompt: { type: Type.STRING, description: 'Um prompt em inglês para um gerador de imagens.' },
+                    name: { type: 'string', minLength: 1, description: 'O nome do personagem.' },
+                    description: { type: 'string', minLength: 1, description: 'Papel, traços e fatos importantes do personagem.' },
                 },
-                required: ["content", "titles", "description", "tags", "cta", "thumbnailPrompt"]
+                required: ['name', 'description'],
+            },
+        },
+    },
+    required: ['summary', 'characters'],
+};
+
+/**
+ * Records what an episode established, so the next episodes of the series stay consistent with it.
+ * @param settings The user-selected provider settings.
+ * @param params The generation parameters, with the episode number.
+ * @param content The final content of the episode.
+ * @param options The request options, with the series.
+ * @returns The summary of the episode and its characters.
+ * @throws {Error} If the content is not an episode of a series.
+ */
+export const summarizeEpisode = async (settings: ProviderSettings, params: GenerationParams, content: string, options: RequestOptions = {}): Promise<EpisodeMemory> => {
+    if (!options.series || !params.episodeNumber) {
+        throw new Error('O conteúdo não faz parte de uma série.');
+    }
+    const provider = getTrackedProvider(settings, 'series', options);
+    const prompt = buildPrompt(PromptTemplateId.SeriesMemory, params, { textToEdit: content }, options);
+
+    return withCache(settings, 'series', { prompt, responseSchema: episodeMemorySchema }, options, () => generateWithRetry(async () => getValidJson<EpisodeMemory>(
+        await provider.generate({ prompt, responseSchema: episodeMemorySchema, signal: options.signal }),
+        episodeMemorySchema
+    ), options));
+};
+
+/**
+ * Generates all content pieces in a single API call for efficiency.
+ * When onContentChunk is given, the main content is streamed as it is written
+ * and the stop signal can end it early, keeping every field finished so far.
+ */
+export const generateAllContent = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    options: StreamingRequestOptions = {}
+): Promise<AllContentResponse> => {
+    const provider = getTrackedProvider(settings, 'all', options);
+    const creationType = getCreationTypeDefinition(params.creationType);
+    const range = getLengthRange(params);
+
+    const prompt = buildPrompt(PromptTemplateId.AllContent, params, {}, options);
+
+    const allContentSchema: JsonSchema = {
+        type: 'object',
+        properties: {
+            titles: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, description: 'Uma lista de 5 títulos sugeridos.' },
+            description: { type: 'string', minLength: 1, description: 'Uma descrição para redes sociais.' },
+            tags: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, description: 'Uma lista de tags de SEO.' },
+            cta: { type: 'string', minLength: 1, description: 'Uma chamada para ação.' },
+            thumbnailPrompt: { type: 'string', minLength: 1, description: 'Um prompt em inglês para um gerador de imagens.' },
+            content: { type: 'string', minLength: 1, description: `O conteúdo principal da ${creationType.promptLabel}. O texto DEVE OBRIGATORIAMENTE ter entre ${range.min} e ${range.max} ${getUnitName(range.unit)}. ${creationType.structureRules}` },
+        },
+        required: ["titles", "description", "tags", "cta", "thumbnailPrompt", "content"]
+    };
+
+    const { onContentChunk, stopSignal, signal } = options;
+    const allContent = await withCache(settings, 'all', { prompt, responseSchema: allContentSchema }, options, async () => {
+        const parsed = await generateWithRetry(async (): Promise<unknown> => {
+            if (!onContentChunk) {
+                return getJson<unknown>(await provider.generate({ prompt, responseSchema: allContentSchema, signal }));
             }
+            const response = await provider.stream(
+                { prompt, responseSchema: allContentSchema, signal },
+                (rawSoFar) => {
+                    const contentSoFar = readPartialJsonString(rawSoFar, 'content');
+                    if (contentSoFar !== null) {
+                        onContentChunk(contentSoFar);
+                    }
+                },
+                stopSignal
+            );
+            return response.stopped ? parseStoppedAllContent(response) : getJson<unknown>(response);
+        }, options);
+
+        // A stopped package keeps its gaps: the user chose to end the generation.
+        if (stopSignal?.aborted) {
+            return parsed as AllContentResponse;
+        }
+        const invalidFields = findInvalidProperties(parsed, allContentSchema);
+        if (invalidFields.length === 0) {
+            return parsed as AllContentResponse;
+        }
+        return repairAllContent(settings, params, parsed as Partial<AllContentResponse>, invalidFields, allContentSchema, options);
+    }, (cached) => onContentChunk?.(cached.content));
+    return {
+        ...allContent,
+        titles: withEpisodeTitles(allContent.titles ?? [], params, options.series),
+        description: withScriptureSection(allContent.description ?? '', params),
+        tags: withSeriesTags(allContent.tags ?? [], options.series),
+    };
+};
+
+/**
+ * Regenerates only the fields of a content package that came back missing or invalid,
+ * keeping the valid ones, instead of discarding the whole package.
+ * @param settings The user-selected provider settings.
+ * @param params The generation parameters.
+ * @param partial The package as received.
+ * @param invalidFields The names of the fields to regenerate.
+ * @param allContentSchema The schema of the complete package.
+ * @param options The request options.
+ * @returns The complete package.
+ */
+const repairAllContent = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    partial: Partial<AllContentResponse>,
+    invalidFields: string[],
+    allContentSchema: JsonSchema,
+    options: RequestOptions
+): Promise<AllContentResponse> => {
+    const provider = getTrackedProvider(settings, 'repair', options);
+    const properties = allContentSchema.properties ?? {};
+    const repairSchema: JsonSchema = {
+        type: 'object',
+        properties: Object.fromEntries(invalidFields.map(field => [field, properties[field]])),
+        required: invalidFields,
+    };
+    const validFields = Object.fromEntries(
+        Object.entries(partial ?? {}).filter(([field]) => properties[field] && !invalidFields.includes(field))
+    );
+    const prompt = buildPrompt(PromptTemplateId.Repair, params, {
+        invalidFields: invalidFields.map(field => `- ${field}: ${properties[field].description ?? ''}`).join('\n'),
+        validFields: JSON.stringify(validFields, null, 2),
+    }, options);
+
+    console.warn("Repairing invalid fields of the AI response:", invalidFields);
+    if (options.onStatusUpdate) {
+        options.onStatusUpdate(`Refazendo campos inválidos da resposta: ${invalidFields.join(', ')}...`);
+    }
+    const repaired = await generateWithRetry(async () => {
+        const response = getJson<unknown>(await provider.generate({ prompt, responseSchema: repairSchema, signal: options.signal }));
+        const stillInvalid = findInvalidProperties(response, repairSchema);
+        if (stillInvalid.length > 0) {
+            throw new AiServiceError(AiErrorKind.Parse, `A IA não conseguiu gerar valores válidos para: ${stillInvalid.join(', ')}. Tente gerar novamente.`);
         }
-    }), onStatusUpdate);
+        const fields = response as Record<string, unknown>;
+        return Object.fromEntries(invalidFields.map(field => [field, fields[field]])) as Partial<AllContentResponse>;
+    }, options);
+    return { ...validFields, ...repaired } as AllContentResponse;
+};
+
+export type ParallelField = 'titles' | 'description' | 'tags' | 'cta' | 'thumbnailPrompt';
+
+export interface ParallelRequestOptions extends RequestOptions {
+    /** Maximum number of field requests in flight; defaults to PARALLEL_FIELD_CONCURRENCY. */
+    concurrency?: number;
+    /** Called with the single finished field as soon as its request succeeds. */
+    onFieldDone?: (fields: Partial<AllContentResponse>) => void;
+    onFieldError?: (field: ParallelField, error: Error) => void;
+}
+
+export interface ParallelResult {
+    fields: Partial<AllContentResponse>;
+    errors: Partial<Record<ParallelField, Error>>;
+}
+
+/**
+ * Runs the tasks with at most `limit` of them in flight at once.
+ * A rejected task rejects the whole run; the tasks handle their own recoverable errors.
+ */
+const runWithConcurrency = async (tasks: (() => Promise<void>)[], limit: number): Promise<void> => {
+    let next = 0;
+    const worker = async () => {
+        while (next < tasks.length) {
+            const task = tasks[next++];
+            await task();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+};
 
-    return getJson<AllContentResponse>(response);
-};
\ No newline at end of file
+/**
+ * Generates every metadata field from the final main content, one request per field.
+ * The requests run concurrently up to the concurrency limit, and a failing field does not
+ * affect the others: its error is reported and the rest of the package is kept.
+ * Cancelling the signal stops every request with a GenerationCancelledError.
+ * @param settings The user-selected provider settings.
+ * @param params The generation parameters.
+ * @param content The final main content the fields are based on.
+ * @param options The request options and the per-field callbacks.
+ * @returns The fields that succeeded and the errors of the ones that failed.
+ */
+export const generateFieldsInParallel = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    content: string,
+    options: ParallelRequestOptions = {}
+): Promise<ParallelResult> => {
+    const { concurrency = PARALLEL_FIELD_CONCURRENCY, onFieldDone, onFieldError, ...requestOptions } = options;
+    const result: ParallelResult = { fields: {}, errors: {} };
+    const generators: Record<ParallelField, () => Promise<string | string[]>> = {
+        titles: () => generateTitles(settings, params, content, undefined, requestOptions),
+        description: () => generateDescription(settings, params, content, undefined, requestOptions),
+        tags: () => generateTags(settings, params, content, undefined, requestOptions),
+        cta: () => generateCta(settings, params, content, undefined, requestOptions),
+        thumbnailPrompt: () => generateThumbnailPrompt(settings, params, content, undefined, requestOptions),
+    };
+
+    await runWithConcurrency((Object.keys(generators) as ParallelField[]).map(field => async () => {
+        try {
+            const fields = { [field]: await generators[field]() } as Partial<AllContentResponse>;
+            Object.assign(result.fields, fields);
+            onFieldDone?.(fields);
+        } catch (error) {
+            if (error instanceof GenerationCancelledError) {
+                throw error;
+            }
+            const fieldError = error instanceof Error ? error : classifyError(error);
+            result.errors[field] = fieldError;
+            onFieldError?.(field, fieldError);
+        }
+    }), concurrency);
+    return result;
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { Creation, Series } from '../types';
+import { HISTORY_BACKUP_FORMAT, HISTORY_BACKUP_VERSION, ImportConflictStrategy, createHistoryBackup, mergeHistory, parseHistoryBackup } from './historyBackup';
+import { CREATION_SCHEMA_VERSION } from './historyStore';
+
+const savedCreation = {
+    id: 'jonas',
+    timestamp: 1000,
+    updatedAt: 2000,
+    params: { mainPrompt: 'Jonas', creationType: 'story', language: 'pt-BR', targetLength: 1500, seriesId: 'profetas', episodeNumber: 1 },
+    outputs: { content: 'Jonas fugiu.', titles: ['Jonas'], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+} as Creation;
+
+const savedSeries: Series = { id: 'profetas', name: 'Profetas', timestamp: 1000, synopsis: [], characters: [], tags: [] };
+
+describe('createHistoryBackup', () => {
+    it('writes the current schema version into every creation and keeps only their series', () => {
+        const otherSeries: Series = { id: 'reis', name: 'Reis', timestamp: 2000, synopsis: [], characters: [], tags: [] };
+        const backup = createHistoryBackup([savedCreation], [savedSeries, otherSeries]);
+
+        expect(backup.creations).toEqual([{ ...savedCreation, schemaVersion: CREATION_SCHEMA_VERSION }]);
+        expect(backup.series).toEqual([savedSeries]);
+    });
+});
+
+describe('parseHistoryBackup', () => {
+    it('reads the creations and series of a backup it wrote', () => {
+        const text = JSON.stringify(createHistoryBackup([savedCreation], [savedSeries]));
+
+        expect(parseHistoryBackup(text)).toEqual({ creations: [savedCreation], series: [savedSeries], skipped: 0 });
+    });
+
+    it('migrates the creations saved by older versions and counts the ones it cannot read', () => {
+        const parsed = parseHistoryBackup(JSON.stringify({
+            format: HISTORY_BACKUP_FORMAT,
+            version: HISTORY_BACKUP_VERSION,
+            exportedAt: '2025-01-01T00:00:00.000Z',
+            creations: [
+                { id: 'ester', timestamp: 1000, mainPrompt: 'Ester', creationType: 'story', language: 'pt-BR', characterCount: 1500, content: 'Ester orou.', description: '', cta: '', thumbnailPrompt: '' },
+                { id: 'broken', timestamp: 1000 },
+                null,
+            ],
+            series: [],
+        }));
+
+        expect(parsed.creations.map(creation => creation.id)).toEqual(['ester']);
+        expect(parsed.creations[0].outputs.content).toBe('Ester orou.');
+        expect(parsed.skipped).toBe(2);
+    });
+
+    it('leaves out the series entries it cannot read', () => {
+        const parsed = parseHistoryBackup(JSON.stringify({
+            format: HISTORY_BACKUP_FORMAT,
+            version: HISTORY_BACKUP_VERSION,
+            exportedAt: '2025-01-01T00:00:00.000Z',
+            creations: [],
+            series: [
+                {
+                    id: 'profetas',
+                    name: 'Profetas',
+                    timestamp: 1000,
+                    synopsis: [{}, { episodeNumber: 1, summary: 'Jonas fugiu.' }],
+                    characters: [null, { name: 'Jonas', description: 'Profeta relutante.' }],
+                    tags: ['profetas', 3],
+                },
+                { name: 'Sem id' },
+            ],
+        }));
+
+        expect(parsed.series).toEqual([{
+            id: 'profetas',
+            name: 'Profetas',
+            timestamp: 1000,
+            synopsis: [{ episodeNumber: 1, summary: 'Jonas fugiu.' }],
+            characters: [{ name: 'Jonas', description: 'Profeta relutante.' }],
+            tags: ['profetas'],
+        }]);
+    });
+
+    it.each([
+        ['is not JSON', '{not json', 'O arquivo não é um JSON válido.'],
+        ['is not a backup', JSON.stringify({ creations: [] }), 'O arquivo não é um backup do histórico do Keno Teólogo.'],
+        ['comes from a newer version', JSON.stringify({ format: HISTORY_BACKUP_FORMAT, version: HISTORY_BACKUP_VERSION + 1, creations: [] }), 'Este backup foi feito por uma versão mais nova do aplicativo. Atualize o aplicativo para importá-lo.'],
+    ])('rejects a file that %s', (_, text, message) => {
+        expect(() => parseHistoryBackup(text)).toThrow(message);
+    });
+});
+
+describe('mergeHistory', () => {
+    const newerCreation = {
+        ...savedCreation,
+        updatedAt: 3000,
+        outputs: { ...savedCreation.outputs, content: 'Jonas obedeceu.' },
+    } as Creation;
+    const olderCreation = {
+        ...savedCreation,
+        updatedAt: 1500,
+        outputs: { ...savedCreation.outputs, content: 'Jonas dormiu.' },
+    } as Creation;
+
+    it('adds the creations that are not saved and the series that are missing', () => {
+        const imported = { ...savedCreation, id: 'ester', timestamp: 500 } as Creation;
+        const otherSeries: Series = { id: 'reis', name: 'Reis', timestamp: 2000, synopsis: [], characters: [], tags: [] };
+        const result = mergeHistory([savedCreation], [savedSeries], { creations: [imported], series: [savedSeries, otherSeries], skipped: 0 }, ImportConflictStrategy.KeepNewest);
+
+        expect(result.history).toEqual([savedCreation, imported]);
+        expect(result.seriesList).toEqual([savedSeries, otherSeries]);
+        expect(result).toMatchObject({ added: 1, replaced: 0, kept: 0 });
+    });
+
+    it('keeps a creation that only differs in the order of its keys', () => {
+        const reordered = {
+            outputs: { thumbnailPrompt: '', cta: '', tags: [], description: '', titles: ['Jonas'], content: 'Jonas fugiu.' },
+            params: { episodeNumber: 1, seriesId: 'profetas', targetLength: 1500, language: 'pt-BR', creationType: 'story', mainPrompt: 'Jonas' },
+            updatedAt: 2000,
+            timestamp: 1000,
+            id: 'jonas',
+        } as Creation;
+
+        for (const strategy of Object.values(ImportConflictStrategy)) {
+            const result = mergeHistory([savedCreation], [], { creations: [reordered], series: [], skipped: 0 }, strategy);
+            expect(result.history).toEqual([savedCreation]);
+            expect(result).toMatchObject({ added: 0, replaced: 0, kept: 1 });
+        }
+    });
+
+    it('keeps the version changed last under KeepNewest', () => {
+        const replacedResult = mergeHistory([savedCreation], [], { creations: [newerCreation], series: [], skipped: 0 }, ImportConflictStrategy.KeepNewest);
+        expect(replacedResult.history).toEqual([newerCreation]);
+        expect(replacedResult).toMatchObject({ added: 0, replaced: 1, kept: 0 });
+
+        const keptResult = mergeHistory([savedCreation], [], { creations: [olderCreation], series: [], skipped: 0 }, ImportConflictStrategy.KeepNewest);
+        expect(keptResult.history).toEqual([savedCreation]);
+        expect(keptResult).toMatchObject({ added: 0, replaced: 0, kept: 1 });
+    });
+
+    it('replaces the saved version under Overwrite, even with an older one', () => {
+        const result = mergeHistory([savedCreation], [], { creations: [olderCreation], series: [], skipped: 0 }, ImportConflictStrategy.Overwrite);
+
+        expect(result.history).toEqual([olderCreation]);
+        expect(result).toMatchObject({ added: 0, replaced: 1, kept: 0 });
+    });
+
+    it('adds the imported version as a copy outside the series under KeepBoth', () => {
+        const result = mergeHistory([savedCreation], [savedSeries], { creations: [newerCreation], series: [savedSeries], skipped: 0 }, ImportConflictStrategy.KeepBoth);
+
+        expect(result.history).toHaveLength(2);
+        expect(result.history).toContain(savedCreation);
+        const copy = result.history.find(creation => creation !== savedCreation);
+        expect(copy?.id).toMatch(/^jonas-import-/);
+        expect(copy?.outputs.content).toBe('Jonas obedeceu.');
+        expect(copy?.params).not.toHaveProperty('seriesId');
+        expect(copy?.params).not.toHaveProperty('episodeNumber');
+        expect(result).toMatchObject({ added: 1, replaced: 0, kept: 0 });
+    });
+});
@@ -0,0 +1,203 @@
+import { Creation, EpisodeSummary, Series, SeriesCharacter } from "../types";
+import { readCreationRecord, toStoredRecord } from "./historyStore";
+
+/** Tells a history backup apart from any other JSON file. */
+export const HISTORY_BACKUP_FORMAT = 'keno-teologo-history';
+
+/** Version of the layout of the backup file; each creation inside carries its own schema version. */
+export const HISTORY_BACKUP_VERSION = 1;
+
+export enum ImportConflictStrategy {
+    KeepNewest = 'newest',
+    KeepBoth = 'both',
+    Overwrite = 'overwrite',
+}
+
+export const importConflictLabels: Record<ImportConflictStrategy, string> = {
+    [ImportConflictStrategy.KeepNewest]: 'Manter a versão alterada por último',
+    [ImportConflictStrategy.KeepBoth]: 'Manter as duas (a importada vira uma cópia, fora da série)',
+    [ImportConflictStrategy.Overwrite]: 'Substituir pela versão importada',
+};
+
+export interface HistoryBackup {
+    format: typeof HISTORY_BACKUP_FORMAT;
+    version: number;
+    /** When the backup was made, as an ISO date. */
+    exportedAt: string;
+    creations: Record<string, unknown>[];
+    /** The series the exported episodes belong to. */
+    series: Series[];
+}
+
+export interface ParsedHistoryBackup {
+    creations: Creation[];
+    series: Series[];
+    /** How many creations of the file could not be read and were left out. */
+    skipped: number;
+}
+
+export interface HistoryMergeResult {
+    history: Creation[];
+    seriesList: Series[];
+    added: number;
+    replaced: number;
+    /** Creations of the file that were already in the history, or changed less recently than the saved ones. */
+    kept: number;
+}
+
+/**
+ * Builds the backup of some creations, along with the series they belong to.
+ * @param creations The creations to export.
+ * @param seriesList The saved series.
+ * @returns The backup, ready to be written as JSON.
+ */
+export const createHistoryBackup = (creations: Creation[], seriesList: Series[]): HistoryBackup => {
+    const seriesIds = new Set(creations.map(creation => creation.params.seriesId).filter(Boolean));
+    return {
+        format: HISTORY_BACKUP_FORMAT,
+        version: HISTORY_BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        creations: creations.map(toStoredRecord),
+        series: seriesList.filter(series => seriesIds.has(series.id)),
+    };
+};
+
+/**
+ * Makes the browser download a backup as a JSON file named after the current date.
+ */
+export const downloadHistoryBackup = (backup: HistoryBackup) => {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `keno-teologo-historico-${backup.exportedAt.slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isSeriesRecord = (value: unknown): value is Record<string, unknown> & Pick<Series, 'id' | 'name'> =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const isEpisodeSummary = (value: unknown): value is EpisodeSummary =>
+    isRecord(value) && typeof value.episodeNumber === 'number' && typeof value.summary === 'string';
+
+const isSeriesCharacter = (value: unknown): value is SeriesCharacter =>
+    isRecord(value) && typeof value.name === 'string' && typeof value.description === 'string';
+
+/**
+ * Reads a series of a backup, leaving out the entries of its lists that cannot be read.
+ */
+const readSeries = (record: Record<string, unknown> & Pick<Series, 'id' | 'name'>): Series => ({
+    id: record.id,
+    name: record.name,
+    timestamp: typeof record.timestamp === 'number' ? record.timestamp : Date.now(),
+    synopsis: Array.isArray(record.synopsis)
+        ? record.synopsis.filter(isEpisodeSummary).map(({ episodeNumber, summary }) => ({ episodeNumber, summary }))
+        : [],
+    characters: Array.isArray(record.characters)
+        ? record.characters.filter(isSeriesCharacter).map(({ name, description }) => ({ name, description }))
+        : [],
+    tags: Array.isArray(record.tags) ? record.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+});
+
+/**
+ * Reads and validates a backup file. Creations saved by older versions are migrated;
+ * the ones that cannot be read are left out and counted.
+ * @param text The content of the file.
+ * @returns The creations and series of the backup.
+ * @throws {Error} If the file is not a backup this version can read.
+ */
+export const parseHistoryBackup = (text: string): ParsedHistoryBackup => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("O arquivo não é um JSON válido.");
+    }
+    if (!isRecord(parsed) || parsed.format !== HISTORY_BACKUP_FORMAT || !Array.isArray(parsed.creations)) {
+        throw new Error("O arquivo não é um backup do histórico do Keno Teólogo.");
+    }
+    if (typeof parsed.version !== 'number' || parsed.version > HISTORY_BACKUP_VERSION) {
+        throw new Error("Este backup foi feito por uma versão mais nova do aplicativo. Atualize o aplicativo para importá-lo.");
+    }
+
+    const creations: Creation[] = [];
+    let skipped = 0;
+    for (const record of parsed.creations) {
+        try {
+            creations.push(readCreationRecord(record));
+        } catch (e) {
+            console.error("Skipping unreadable backup record:", record, e);
+            skipped++;
+        }
+    }
+    const series = (Array.isArray(parsed.series) ? parsed.series : []).filter(isSeriesRecord).map(readSeries);
+    return { creations, series, skipped };
+};
+
+/**
+ * Rebuilds a value with the keys of every object in sorted order and without undefined values,
+ * so that two equal creations serialize the same whatever path their records took.
+ */
+const toComparable = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+        return value.map(toComparable);
+    }
+    if (isRecord(value)) {
+        return Object.fromEntries(Object.keys(value).sort()
+            .filter(key => value[key] !== undefined)
+            .map(key => [key, toComparable(value[key])]));
+    }
+    return value;
+};
+
+const isSameCreation = (a: Creation, b: Creation): boolean => JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+
+/**
+ * Merges the creations of a backup into the history, matching them by id. The series of
+ * the backup are added when they are missing; the saved ones keep their memory.
+ * @param history The saved creations.
+ * @param seriesList The saved series.
+ * @param backup The content of the backup.
+ * @param strategy What to do with a creation that is both saved and in the backup, with differences.
+ * A copy kept beside the saved creation leaves its series, so that no episode is repeated.
+ * @returns The merged history, most recent first, and what happened to the imported creations.
+ */
+export const mergeHistory = (history: Creation[], seriesList: Series[], backup: ParsedHistoryBackup, strategy: ImportConflictStrategy): HistoryMergeResult => {
+    const merged = new Map(history.map(creation => [creation.id, creation]));
+    let added = 0;
+    let replaced = 0;
+    let kept = 0;
+
+    backup.creations.forEach((imported, index) => {
+        const saved = merged.get(imported.id);
+        if (!saved) {
+            merged.set(imported.id, imported);
+            added++;
+        } else if (isSameCreation(saved, imported)) {
+            kept++;
+        } else if (strategy === ImportConflictStrategy.KeepBoth) {
+            // The saved creation stays the episode of its series; the copy would repeat its number.
+            const copyId = `${imported.id}-import-${Date.now()}-${index}`;
+            const { seriesId, episodeNumber, ...params } = imported.params;
+            merged.set(copyId, { ...imported, id: copyId, params });
+            added++;
+        } else if (strategy === ImportConflictStrategy.Overwrite || imported.updatedAt > saved.updatedAt) {
+            merged.set(imported.id, imported);
+            replaced++;
+        } else {
+            kept++;
+        }
+    });
+
+    const savedSeriesIds = new Set(seriesList.map(series => series.id));
+    return {
+        history: [...merged.values()].sort((a, b) => b.timestamp - a.timestamp),
+        seriesList: [...seriesList, ...backup.series.filter(series => !savedSeriesIds.has(series.id))],
+        added,
+        replaced,
+        kept,
+    };
+};
@@ -0,0 +1,212 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Creation, LengthUnit, RevisionSource } from '../types';
+import { defaultLengthPolicy } from './lengthPolicy';
+import { CREATION_SCHEMA_VERSION, readCreationRecord, toStoredRecord } from './historyStore';
+
+const LEGACY_HISTORY_KEY = 'generationHistory';
+
+describe('readCreationRecord', () => {
+    it('migrates a flat record of the first version to the current schema', () => {
+        const creation = readCreationRecord({
+            id: 'c1',
+            timestamp: 1000,
+            mainPrompt: 'O filho pródigo',
+            creationType: 'story',
+            language: 'pt-BR',
+            characterCount: 2000,
+            content: 'Era uma vez.',
+            description: 'Descrição.',
+            cta: 'Inscreva-se.',
+            thumbnailPrompt: 'Um pai abraçando o filho',
+        });
+
+        expect(creation).toEqual({
+            id: 'c1',
+            timestamp: 1000,
+            updatedAt: 1000,
+            params: {
+                mainPrompt: 'O filho pródigo',
+                creationType: 'story',
+                language: 'pt-BR',
+                lengthUnit: LengthUnit.Characters,
+                targetLength: 2000,
+                speakingWpm: expect.any(Number),
+                lengthPolicy: defaultLengthPolicy,
+                thumbnailPrompt: '',
+            },
+            outputs: {
+                content: 'Era uma vez.',
+                titles: [],
+                description: 'Descrição.',
+                tags: [],
+                cta: 'Inscreva-se.',
+                thumbnailPrompt: 'Um pai abraçando o filho',
+            },
+        });
+    });
+
+    it('keeps the length chosen in a record of the second version', () => {
+        const creation = readCreationRecord({
+            id: 'c2',
+            timestamp: 1000,
+            schemaVersion: 2,
+            mainPrompt: 'Salmo 23',
+            creationType: 'prayer',
+            language: 'en-US',
+            lengthUnit: LengthUnit.Words,
+            targetLength: 300,
+            speakingWpm: 150,
+            lengthPolicy: { mode: 'strict', tolerance: 5 },
+            content: 'The Lord is my shepherd.',
+            titles: ['Shepherd'],
+            description: '',
+            tags: ['psalm'],
+            cta: '',
+            thumbnailPrompt: 'A shepherd',
+        });
+
+        expect(creation.params).toMatchObject({ lengthUnit: LengthUnit.Words, targetLength: 300, speakingWpm: 150, lengthPolicy: { mode: 'strict', tolerance: 5 } });
+        expect(creation.outputs).toMatchObject({ titles: ['Shepherd'], tags: ['psalm'], thumbnailPrompt: 'A shepherd' });
+    });
+
+    it('dates the last change of a record of the third version from its latest revision', () => {
+        const creation = readCreationRecord({
+            id: 'c3',
+            timestamp: 1000,
+            schemaVersion: 3,
+            params: { mainPrompt: 'Rute', creationType: 'story', language: 'pt-BR', targetLength: 1500 },
+            outputs: { content: 'Texto editado.', titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+            revisions: [
+                { id: 'r1', timestamp: 1000, field: 'content', value: 'Texto.', source: RevisionSource.Generated },
+                { id: 'r2', timestamp: 5000, field: 'content', value: 'Texto editado.', source: RevisionSource.Edited },
+            ],
+        });
+
+        expect(creation.updatedAt).toBe(5000);
+        expect(creation.revisions).toHaveLength(2);
+    });
+
+    it('reads a record of the current version as it was stored', () => {
+        const stored = {
+            id: 'c4',
+            timestamp: 1000,
+            updatedAt: 2000,
+            schemaVersion: CREATION_SCHEMA_VERSION,
+            params: { mainPrompt: 'Davi', creationType: 'story', language: 'pt-BR', targetLength: 1500 },
+            outputs: { content: 'Davi venceu.', titles: ['Davi'], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+        };
+
+        expect(toStoredRecord(readCreationRecord(stored))).toEqual(stored);
+    });
+
+    it.each([
+        ['an id and a timestamp only', { id: 'c5', timestamp: 1000, schemaVersion: CREATION_SCHEMA_VERSION, updatedAt: 1000 }],
+        ['results that are not text', {
+            id: 'c6', timestamp: 1000, updatedAt: 1000, schemaVersion: CREATION_SCHEMA_VERSION,
+            params: { mainPrompt: 'Davi', creationType: 'story', language: 'pt-BR', targetLength: 1500 },
+            outputs: { content: 42, titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+        }],
+        ['no id', { timestamp: 1000, mainPrompt: 'Davi', creationType: 'story', language: 'pt-BR', content: '' }],
+        ['a value that is not a record', 'c7'],
+    ])('rejects a record with %s', (_, record) => {
+        expect(() => readCreationRecord(record)).toThrow('Invalid creation record');
+    });
+
+    it('drops the usage records, revisions and length trail it cannot read', () => {
+        const creation = readCreationRecord({
+            id: 'c8',
+            timestamp: 1000,
+            updatedAt: 1000,
+            schemaVersion: CREATION_SCHEMA_VERSION,
+            params: { mainPrompt: 'Davi', creationType: 'story', language: 'pt-BR', targetLength: 1500 },
+            outputs: { content: 'Davi venceu.', titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+            usage: [null, { timestamp: 1000, promptTokens: 10, outputTokens: 20, provider: 'gemini', model: 'gemini-2.5-flash', operation: 'content' }],
+            revisions: [{}, { id: 'r1', timestamp: 1000, field: 'titles', value: 'not a list', source: RevisionSource.Generated }],
+            lengthTrail: { unit: LengthUnit.Characters, candidates: [], selected: 0 },
+        });
+
+        expect(creation.usage).toEqual([{ timestamp: 1000, promptTokens: 10, outputTokens: 20, provider: 'gemini', model: 'gemini-2.5-flash', operation: 'content' }]);
+        expect(creation.revisions).toEqual([]);
+        expect(creation).not.toHaveProperty('lengthTrail');
+    });
+});
+
+describe('loadHistory', () => {
+    let storage: Map<string, string>;
+
+    /** Imports the store anew, so that it opens the fresh database of the test. */
+    const importStore = () => import('./historyStore');
+
+    beforeEach(() => {
+        storage = new Map();
+        vi.stubGlobal('indexedDB', new IDBFactory());
+        vi.stubGlobal('localStorage', {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => { storage.set(key, value); },
+            removeItem: (key: string) => { storage.delete(key); },
+        });
+        vi.resetModules();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('imports the localStorage history once, skipping the records it cannot read', async () => {
+        storage.set(LEGACY_HISTORY_KEY, JSON.stringify([
+            { id: 'old', timestamp: 1000, mainPrompt: 'Jonas', creationType: 'story', language: 'pt-BR', characterCount: 1500, content: 'Jonas fugiu.', description: '', cta: '', thumbnailPrompt: '' },
+            { id: 'new', timestamp: 2000, mainPrompt: 'Ester', creationType: 'story', language: 'pt-BR', characterCount: 1500, content: 'Ester orou.', description: '', cta: '', thumbnailPrompt: '' },
+            { id: 'broken', timestamp: 3000 },
+        ]));
+        const { loadHistory } = await importStore();
+
+        const first = await loadHistory();
+        expect(first.creations.map(creation => creation.id)).toEqual(['new', 'old']);
+        expect(first.skipped).toBe(1);
+        expect(first.legacyUnreadable).toBe(false);
+        expect(storage.has(LEGACY_HISTORY_KEY)).toBe(false);
+
+        storage.set(LEGACY_HISTORY_KEY, JSON.stringify([
+            { id: 'again', timestamp: 4000, mainPrompt: 'Rute', creationType: 'story', language: 'pt-BR', content: '', description: '', cta: '', thumbnailPrompt: '' },
+        ]));
+        const second = await loadHistory();
+        expect(second.creations.map(creation => creation.id)).toEqual(['new', 'old']);
+        expect(second.skipped).toBe(0);
+    });
+
+    it('keeps a localStorage history it cannot parse', async () => {
+        storage.set(LEGACY_HISTORY_KEY, '{not json');
+        const { loadHistory } = await importStore();
+
+        const loaded = await loadHistory();
+        expect(loaded.creations).toEqual([]);
+        expect(loaded.legacyUnreadable).toBe(true);
+        expect(storage.get(LEGACY_HISTORY_KEY)).toBe('{not json');
+    });
+
+    it('saves the changed creations and removes the deleted ones', async () => {
+        const { loadHistory, syncHistory } = await importStore();
+        const jonas = {
+            id: 'jonas',
+            timestamp: 1000,
+            updatedAt: 1000,
+            params: { mainPrompt: 'Jonas', creationType: 'story', language: 'pt-BR', targetLength: 1500 },
+            outputs: { content: 'Jonas fugiu.', titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+        } as Creation;
+        const ester = {
+            id: 'ester',
+            timestamp: 2000,
+            updatedAt: 2000,
+            params: { mainPrompt: 'Ester', creationType: 'story', language: 'pt-BR', targetLength: 1500 },
+            outputs: { content: 'Ester orou.', titles: [], description: '', tags: [], cta: '', thumbnailPrompt: '' },
+        } as Creation;
+
+        await syncHistory([], [ester, jonas]);
+        const editedJonas = { ...jonas, updatedAt: 3000, outputs: { ...jonas.outputs, content: 'Jonas obedeceu.' } };
+        await syncHistory([ester, jonas], [editedJonas]);
+
+        const loaded = await loadHistory();
+        expect(loaded.creations).toEqual([editedJonas]);
+    });
+});
@@ -0,0 +1,353 @@
+import { Creation, LengthCandidate, LengthCandidateSource, LengthMode, LengthPolicy, LengthTrail, LengthUnit, LlmProviderId, Revision, RevisionSource, UsageRecord } from "../types";
+import { withLengthDefaults } from "./lengthPolicy";
+import { revisionFields } from "./revisions";
+
+const DB_NAME = 'kenoTeologo';
+/** Version of the database layout (object stores and indexes), upgraded in `openDatabase`. */
+const DB_VERSION = 1;
+const CREATIONS_STORE = 'creations';
+const META_STORE = 'meta';
+
+/** Where the history was kept before IndexedDB; imported once and then removed. */
+const LEGACY_HISTORY_KEY = 'generationHistory';
+const LEGACY_IMPORTED_KEY = 'legacyHistoryImported';
+
+/** Version of the shape of a saved creation; older records are migrated when they are read. */
+export const CREATION_SCHEMA_VERSION = 4;
+
+type StoredRecord = Record<string, unknown>;
+
+export enum HistoryStorageErrorKind {
+    Quota = 'quota',
+    Unavailable = 'unavailable',
+    Unknown = 'unknown',
+}
+
+const storageErrorMessages: Record<HistoryStorageErrorKind, string> = {
+    [HistoryStorageErrorKind.Quota]: "O espaço de armazenamento do navegador está cheio e o histórico não foi salvo. Apague criações antigas do histórico e tente novamente.",
+    [HistoryStorageErrorKind.Unavailable]: "O armazenamento do navegador não está disponível (por exemplo, em uma janela anônima). O histórico não será salvo.",
+    [HistoryStorageErrorKind.Unknown]: "Não foi possível acessar o histórico salvo no navegador.",
+};
+
+/**
+ * Error thrown by the history store, carrying its classification.
+ */
+export class HistoryStorageError extends Error {
+    kind: HistoryStorageErrorKind;
+
+    constructor(kind: HistoryStorageErrorKind, message: string = storageErrorMessages[kind]) {
+        super(message);
+        this.name = 'HistoryStorageError';
+        this.kind = kind;
+    }
+}
+
+export interface LoadedHistory {
+    /** The saved creations, most recent first. */
+    creations: Creation[];
+    /** How many saved records could not be read and were left out. */
+    skipped: number;
+    /** True when the history of an older version could not be read; it is kept in localStorage. */
+    legacyUnreadable: boolean;
+}
+
+interface LegacyImport {
+    skipped: number;
+    unreadable: boolean;
+}
+
+const isRecord = (value: unknown): value is StoredRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isLengthUnit = (value: unknown): value is LengthUnit => Object.values(LengthUnit).includes(value as LengthUnit);
+
+const isLengthPolicy = (value: unknown): value is LengthPolicy =>
+    isRecord(value) && Object.values(LengthMode).includes(value.mode as LengthMode) && typeof value.tolerance === 'number';
+
+/**
+ * Migrations from each creation schema version to the next one. A migration receives a record
+ * saved under its version and returns it in the shape of the next version.
+ */
+const creationMigrations: Record<number, (record: StoredRecord) => StoredRecord> = {
+    // Version 2 measures the content in the unit chosen by the user instead of a character count.
+    1: record => {
+        const { characterCount, lengthUnit, targetLength, speakingWpm, lengthPolicy, ...migrated } = record;
+        const lengthFields = withLengthDefaults({
+            language: typeof migrated.language === 'string' ? migrated.language : '',
+            characterCount: typeof characterCount === 'number' ? characterCount : undefined,
+            lengthUnit: isLengthUnit(lengthUnit) ? lengthUnit : undefined,
+            targetLength: typeof targetLength === 'number' ? targetLength : undefined,
+            speakingWpm: typeof speakingWpm === 'number' ? speakingWpm : undefined,
+            lengthPolicy: isLengthPolicy(lengthPolicy) ? lengthPolicy : undefined,
+        });
+        return {
+            ...migrated,
+            lengthUnit: lengthFields.lengthUnit,
+            targetLength: lengthFields.targetLength,
+            speakingWpm: lengthFields.speakingWpm,
+            lengthPolicy: lengthFields.lengthPolicy,
+            titles: migrated.titles ?? [],
+            tags: migrated.tags ?? [],
+        };
+    },
+    // Version 3 keeps the inputs and the results apart, since both have a thumbnail prompt. A flat
+    // record only holds the generated one: the user's wish was overwritten by it when it was saved.
+    2: record => {
+        const { id, timestamp, usage, lengthTrail, revisions, schemaVersion, content, titles, description, tags, cta, thumbnailPrompt, ...params } = record;
+        return {
+            id, timestamp, usage, lengthTrail, revisions, schemaVersion,
+            params: { ...params, thumbnailPrompt: '' },
+            outputs: { content, titles, description, tags, cta, thumbnailPrompt },
+        };
+    },
+    // Version 4 records when a creation last changed; before, only its latest revision tells.
+    3: record => {
+        const revisionTimes = Array.isArray(record.revisions)
+            ? record.revisions.map(revision => isRecord(revision) && typeof revision.timestamp === 'number' ? revision.timestamp : 0)
+            : [];
+        const timestamp = typeof record.timestamp === 'number' ? record.timestamp : 0;
+        return { ...record, updatedAt: Math.max(timestamp, ...revisionTimes) };
+    },
+};
+
+/**
+ * Classifies a failure of the browser storage.
+ */
+const toStorageError = (error: unknown): HistoryStorageError => {
+    if (error instanceof HistoryStorageError) {
+        return error;
+    }
+    const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+    if (name === 'QuotaExceededError') {
+        return new HistoryStorageError(HistoryStorageErrorKind.Quota);
+    }
+    if (name === 'SecurityError' || name === 'InvalidStateError') {
+        return new HistoryStorageError(HistoryStorageErrorKind.Unavailable);
+    }
+    console.error("History storage failed:", error);
+    return new HistoryStorageError(HistoryStorageErrorKind.Unknown);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    // A quota error surfaces as the abort of the transaction.
+    transaction.onabort = () => reject(toStorageError(transaction.error));
+});
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the history database, creating or upgrading its stores on the first launch of each layout.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new HistoryStorageError(HistoryStorageErrorKind.Unavailable));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(CREATIONS_STORE, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+                    db.createObjectStore(META_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(toStorageError(request.error));
+            request.onblocked = () => reject(new HistoryStorageError(HistoryStorageErrorKind.Unavailable, "Feche as outras abas do aplicativo para atualizar o histórico salvo."));
+        });
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+const isCreationRecord = (value: unknown): value is StoredRecord =>
+    isRecord(value) && typeof value.id === 'string' && typeof value.timestamp === 'number';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOptionalString = (value: unknown): boolean => value === undefined || isString(value);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+
+const isUsageRecord = (value: unknown): value is UsageRecord =>
+    isRecord(value) && typeof value.timestamp === 'number' && typeof value.promptTokens === 'number' && typeof value.outputTokens === 'number'
+    && Object.values(LlmProviderId).includes(value.provider as LlmProviderId) && isString(value.model) && isString(value.operation);
+
+const isLengthCandidate = (value: unknown): value is LengthCandidate =>
+    isRecord(value) && Object.values(LengthCandidateSource).includes(value.source as LengthCandidateSource)
+    && typeof value.attempt === 'number' && isString(value.content) && typeof value.length === 'number';
+
+const isLengthTrail = (value: unknown): value is LengthTrail =>
+    isRecord(value) && (value.unit === LengthUnit.Characters || value.unit === LengthUnit.Words)
+    && Array.isArray(value.candidates) && value.candidates.every(isLengthCandidate)
+    && Number.isInteger(value.selected) && (value.selected as number) >= 0 && (value.selected as number) < value.candidates.length;
+
+const isRevision = (value: unknown): value is Revision => {
+    if (!isRecord(value) || !revisionFields.includes(value.field as Revision['field'])) {
+        return false;
+    }
+    const isListField = value.field === 'titles' || value.field === 'tags';
+    return isString(value.id) && typeof value.timestamp === 'number'
+        && (isListField ? isStringList(value.value) : isString(value.value))
+        && Object.values(RevisionSource).includes(value.source as RevisionSource)
+        && isOptionalString(value.modification) && isOptionalString(value.restoredFrom);
+};
+
+/**
+ * Checks that a migrated record has the inputs and results that the screens read.
+ */
+const isCreation = (record: StoredRecord): record is StoredRecord & Omit<Creation, 'usage' | 'lengthTrail' | 'revisions'> => {
+    const { params, outputs } = record;
+    return typeof record.updatedAt === 'number' && isRecord(params) && isRecord(outputs)
+        && isString(params.mainPrompt) && isString(params.creationType) && isString(params.language)
+        && typeof params.targetLength === 'number'
+        && [params.creationName, params.titlePrompt, params.descriptionPrompt, params.thumbnailPrompt, params.seriesId].every(isOptionalString)
+        && [outputs.content, outputs.description, outputs.cta, outputs.thumbnailPrompt].every(isString)
+        && isStringList(outputs.titles) && isStringList(outputs.tags);
+};
+
+/**
+ * Brings a saved record to the current creation schema.
+ */
+const migrateCreation = (record: StoredRecord): StoredRecord => {
+    let migrated = record;
+    for (let version = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1; version < CREATION_SCHEMA_VERSION; version++) {
+        migrated = creationMigrations[version]?.(migrated) ?? migrated;
+    }
+    const { schemaVersion, ...creation } = migrated;
+    return creation;
+};
+
+/**
+ * Reads a saved or exported creation record, migrating it to the current schema.
+ * Usage records and revisions that cannot be read are left out, and so is a length trail
+ * that cannot be read.
+ * @param record The record as saved.
+ * @returns The creation.
+ * @throws {Error} If the record is not a creation, before or after the migration.
+ */
+export const readCreationRecord = (record: unknown): Creation => {
+    if (!isCreationRecord(record)) {
+        throw new Error('Invalid creation record');
+    }
+    const migrated = migrateCreation(record);
+    if (!isCreation(migrated)) {
+        throw new Error('Invalid creation record');
+    }
+    const { usage, lengthTrail, revisions, ...creation } = migrated;
+    return {
+        ...creation,
+        ...(Array.isArray(usage) ? { usage: usage.filter(isUsageRecord) } : {}),
+        ...(isLengthTrail(lengthTrail) ? { lengthTrail } : {}),
+        ...(Array.isArray(revisions) ? { revisions: revisions.filter(isRevision) } : {}),
+    };
+};
+
+/**
+ * Tags a creation with the schema version it is written in.
+ */
+export const toStoredRecord = (creation: Creation): StoredRecord => ({ ...creation, schemaVersion: CREATION_SCHEMA_VERSION });
+
+/**
+ * Moves the history kept in localStorage by older versions into the database, once.
+ * The localStorage copy is removed only after the import is committed; unreadable data is
+ * left there untouched.
+ * @param db The history database.
+ * @returns How many legacy records could not be imported, and whether the whole history was unreadable.
+ */
+const importLegacyHistory = async (db: IDBDatabase): Promise<LegacyImport> => {
+    const alreadyImported = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(LEGACY_IMPORTED_KEY));
+    const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (alreadyImported || !saved) {
+        return { skipped: 0, unreadable: false };
+    }
+
+    let records: unknown[] = [];
+    let isReadable = true;
+    try {
+        const parsed = JSON.parse(saved);
+        isReadable = Array.isArray(parsed);
+        records = isReadable ? parsed : [];
+    } catch (e) {
+        console.error("Failed to parse the legacy history:", e);
+        isReadable = false;
+    }
+
+    const valid: Creation[] = [];
+    for (const record of records) {
+        try {
+            valid.push(readCreationRecord(record));
+        } catch (e) {
+            console.error("Skipping unreadable legacy history record:", record, e);
+        }
+    }
+    const transaction = db.transaction([CREATIONS_STORE, META_STORE], 'readwrite');
+    const store = transaction.objectStore(CREATIONS_STORE);
+    valid.forEach(creation => store.put(toStoredRecord(creation)));
+    transaction.objectStore(META_STORE).put(true, LEGACY_IMPORTED_KEY);
+    await transactionDone(transaction);
+
+    if (isReadable) {
+        localStorage.removeItem(LEGACY_HISTORY_KEY);
+    }
+    return { skipped: records.length - valid.length, unreadable: !isReadable };
+};
+
+/**
+ * Loads the saved history, importing the localStorage history on the first launch and
+ * migrating older records. Unreadable records are left out and counted.
+ * @returns The creations, most recent first, and what could not be read.
+ * @throws {HistoryStorageError} If the browser storage cannot be used.
+ */
+export const loadHistory = async (): Promise<LoadedHistory> => {
+    const db = await openDatabase();
+    const legacy = await importLegacyHistory(db);
+    let skipped = legacy.skipped;
+    const records = await requestToPromise(db.transaction(CREATIONS_STORE).objectStore(CREATIONS_STORE).getAll());
+
+    const creations: Creation[] = [];
+    for (const record of records) {
+        try {
+            creations.push(readCreationRecord(record));
+        } catch (e) {
+            console.error("Skipping unreadable history record:", record, e);
+            skipped++;
+        }
+    }
+    return { creations: creations.sort((a, b) => b.timestamp - a.timestamp), skipped, legacyUnreadable: legacy.unreadable };
+};
+
+/**
+ * Writes the changes between two versions of the history: the creations that are new or
+ * were replaced, and the ones that were removed. Unchanged creations are not rewritten.
+ * @param previous The history as it was last saved.
+ * @param next The current history.
+ * @throws {HistoryStorageError} If the changes could not be saved, e.g. when the quota is exceeded.
+ */
+export const syncHistory = async (previous: Creation[], next: Creation[]): Promise<void> => {
+    const unchanged = new Set(previous);
+    const nextIds = new Set(next.map(creation => creation.id));
+    const changed = next.filter(creation => !unchanged.has(creation));
+    const removed = previous.filter(creation => !nextIds.has(creation.id));
+    if (changed.length === 0 && removed.length === 0) {
+        return;
+    }
+
+    const db = await openDatabase();
+    try {
+        const transaction = db.transaction(CREATIONS_STORE, 'readwrite');
+        const store = transaction.objectStore(CREATIONS_STORE);
+        removed.forEach(creation => store.delete(creation.id));
+        changed.forEach(creation => store.put(toStoredRecord(creation)));
+        await transactionDone(transaction);
+    } catch (error) {
+        throw toStorageError(error);
+    }
+};
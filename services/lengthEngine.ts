@@ -0,0 +1,80 @@
+import { GenerationParams, LengthCandidate, LengthCandidateSource, LengthTrail, ProviderSettings } from "../types";
+import { RequestOptions, refineTextLength } from "./geminiService";
+import { getMaxCharacterIndex, measureLength } from "./lengthUnits";
+import { LengthNotice, MAX_REFINEMENT_ATTEMPTS, compareToTarget, getLengthNotice, getLengthRange, shouldRefineLength } from "./lengthPolicy";
+import { smartTruncate } from "./textTruncation";
+
+export interface FitLengthOptions {
+    /** The user stopped the stream: the partial text is kept as it is. */
+    wasStopped: boolean;
+    isRegeneration?: boolean;
+}
+
+export interface FitLengthResult {
+    content: string;
+    trail: LengthTrail;
+    notice: LengthNotice | null;
+}
+
+/**
+ * Fits freshly generated content to the length band of the generation.
+ * In strict mode the content is sent back to the model up to MAX_REFINEMENT_ATTEMPTS times;
+ * every version is kept and the one closest to the target wins, which is then truncated
+ * if it is still too long. The soft mode keeps the content and only reports its length.
+ * @param settings The provider settings.
+ * @param params The generation parameters, with the length target and policy.
+ * @param content The content as generated.
+ * @param fitOptions Whether the stream was stopped and whether this is a regeneration.
+ * @param options The request options used for the refinement calls.
+ * @returns The chosen content, the trail of every candidate and the notice to show.
+ */
+export const fitContentLength = async (
+    settings: ProviderSettings,
+    params: GenerationParams,
+    content: string,
+    { wasStopped, isRegeneration }: FitLengthOptions,
+    options: RequestOptions = {}
+): Promise<FitLengthResult> => {
+    const range = getLengthRange(params);
+    const policy = params.lengthPolicy;
+    const toCandidate = (source: LengthCandidateSource, attempt: number, text: string): LengthCandidate =>
+        ({ source, attempt, content: text, length: measureLength(text, range.unit) });
+
+    const candidates = [toCandidate(LengthCandidateSource.Generated, 0, content)];
+    let current = content;
+    let refinementAttempts = 0;
+    while (!wasStopped && shouldRefineLength(current, range, policy) && refinementAttempts < MAX_REFINEMENT_ATTEMPTS) {
+        refinementAttempts++;
+        const isTooLong = measureLength(current, range.unit) > range.max;
+        options.onStatusUpdate?.(`Tentativa ${refinementAttempts}/${MAX_REFINEMENT_ATTEMPTS}: Conteúdo${isRegeneration ? ' regenerado' : ''} fora do alvo. ${isTooLong ? 'Resumindo' : 'Expandindo'}...`);
+        current = await refineTextLength(settings, params, current, options);
+        candidates.push(toCandidate(LengthCandidateSource.Refined, refinementAttempts, current));
+    }
+
+    // The stopped text is the only candidate; otherwise the first of the closest ones wins.
+    let selected = candidates.reduce((best, candidate, index) => compareToTarget(candidate, candidates[best], range) < 0 ? index : best, 0);
+    const best = candidates[selected];
+
+    let truncatedFrom: number | undefined;
+    if (!wasStopped && shouldRefineLength(best.content, range, policy) && best.length > range.max) {
+        truncatedFrom = best.length;
+        candidates.push(toCandidate(LengthCandidateSource.Truncated, best.attempt, smartTruncate(best.content, getMaxCharacterIndex(best.content, range), params.language)));
+        selected = candidates.length - 1;
+    }
+
+    const chosen = candidates[selected];
+    return {
+        content: chosen.content,
+        trail: { unit: range.unit, candidates, selected },
+        notice: getLengthNotice({
+            length: chosen.length,
+            range,
+            policy,
+            refinementAttempts,
+            selectedAttempt: chosen.attempt,
+            wasStopped,
+            truncatedFrom,
+            isRegeneration,
+        }),
+    };
+};
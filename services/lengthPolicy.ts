@@ -0,0 +1,132 @@
+import { GenerationParams, LengthCandidate, LengthCandidateSource, LengthMode, LengthPolicy, LengthUnit, ToleranceKind } from "../types";
+import { LengthRange, getDefaultSpeakingWpm, getTargetAmount, getUnitName, isWithinRange, lengthUnitInfo } from "./lengthUnits";
+
+export const defaultLengthPolicy: LengthPolicy = {
+    mode: LengthMode.Strict,
+    toleranceKind: ToleranceKind.Percent,
+    tolerance: 15,
+};
+
+export const lengthModeLabels: Record<LengthMode, string> = {
+    [LengthMode.Strict]: 'Rígido (refina e ajusta)',
+    [LengthMode.Soft]: 'Flexível (apenas avisa)',
+};
+
+/** How many times the content is sent back to the model before the strict mode truncates it. */
+export const MAX_REFINEMENT_ATTEMPTS = 2;
+
+/**
+ * Returns the accepted length range for the main content, in the unit the model is asked to follow.
+ * The tolerance is applied around the target, either as an absolute amount of that unit
+ * or as a percentage of the target.
+ * @param params The generation parameters.
+ * @returns The minimum, the maximum and their unit.
+ */
+export const getLengthRange = (params: GenerationParams): LengthRange => {
+    const { amount, unit } = getTargetAmount(params);
+    const policy = params.lengthPolicy ?? defaultLengthPolicy;
+    const tolerance = policy.toleranceKind === ToleranceKind.Percent
+        ? amount * Math.max(0, policy.tolerance) / 100
+        : Math.max(0, policy.tolerance);
+    return {
+        unit,
+        min: Math.max(1, Math.round(amount - tolerance)),
+        max: Math.round(amount + tolerance),
+    };
+};
+
+/**
+ * Checks whether the content should be sent back to the model to fix its length.
+ * Only the strict mode refines; the soft mode keeps whatever the model wrote.
+ */
+export const shouldRefineLength = (text: string, range: LengthRange, policy: LengthPolicy): boolean =>
+    policy.mode === LengthMode.Strict && !isWithinRange(text, range);
+
+export interface LengthOutcome {
+    /** The final length, in the unit of the range. */
+    length: number;
+    range: LengthRange;
+    policy: LengthPolicy;
+    refinementAttempts: number;
+    /** The attempt the final content came from, when an earlier one was closer to the target. */
+    selectedAttempt?: number;
+    wasStopped: boolean;
+    /** The length before the strict mode truncated the content, if it did. */
+    truncatedFrom?: number;
+    isRegeneration?: boolean;
+}
+
+export interface LengthNotice {
+    kind: 'warning' | 'error';
+    message: string;
+}
+
+/**
+ * Builds the message shown to the user about the length of the final content.
+ * @param outcome What happened while fitting the content to the range.
+ * @returns The warning or error to show, or null when there is nothing to report.
+ */
+export const getLengthNotice = (outcome: LengthOutcome): LengthNotice | null => {
+    const { length, range, policy, refinementAttempts, selectedAttempt, wasStopped, truncatedFrom, isRegeneration } = outcome;
+    const unitName = getUnitName(range.unit);
+    const subject = isRegeneration ? 'O conteúdo regenerado' : 'O conteúdo';
+
+    if (wasStopped) {
+        return { kind: 'warning', message: `A geração foi interrompida com ${length} ${unitName}. O texto recebido até aqui foi mantido.` };
+    }
+    if (truncatedFrom !== undefined) {
+        return { kind: 'warning', message: `A IA não conseguiu ajustar o texto em ${MAX_REFINEMENT_ATTEMPTS} tentativas. O resultado (${truncatedFrom} ${unitName}) foi ajustado automaticamente.` };
+    }
+    if (length < range.min || length > range.max) {
+        return policy.mode === LengthMode.Soft
+            ? { kind: 'warning', message: `${subject} tem ${length} ${unitName}, fora da faixa desejada (${range.min}-${range.max}). No modo flexível o texto foi mantido como veio.` }
+            : { kind: 'error', message: `A IA não conseguiu refinar o conteúdo para a faixa desejada (${range.min}-${range.max} ${unitName}). O resultado final tem ${length} ${unitName}.` };
+    }
+    if (refinementAttempts > 0 && selectedAttempt !== undefined && selectedAttempt < refinementAttempts) {
+        const version = selectedAttempt === 0 ? 'a versão original' : `a tentativa ${selectedAttempt}`;
+        return { kind: 'warning', message: `${subject} passou por ${refinementAttempts} tentativa(s) de refino; foi mantida ${version}, a mais próxima do alvo.` };
+    }
+    if (refinementAttempts > 0) {
+        return { kind: 'warning', message: `${subject} foi refinado pela IA em ${refinementAttempts} tentativa(s) para se ajustar ao tamanho solicitado.` };
+    }
+    return null;
+};
+
+/**
+ * Orders candidates by how close they are to the range: those inside it first,
+ * then by the distance to its center.
+ * @returns A negative number when `a` is closer to the target than `b`.
+ */
+export const compareToTarget = (a: LengthCandidate, b: LengthCandidate, range: LengthRange): number => {
+    const outside = (length: number) => Math.max(0, range.min - length, length - range.max);
+    const center = (range.min + range.max) / 2;
+    return outside(a.length) - outside(b.length) || Math.abs(a.length - center) - Math.abs(b.length - center);
+};
+
+/**
+ * Returns the label of a candidate in the refinement trail.
+ */
+export const getCandidateLabel = (candidate: LengthCandidate): string => {
+    switch (candidate.source) {
+        case LengthCandidateSource.Refined:
+            return `Refino ${candidate.attempt}`;
+        case LengthCandidateSource.Truncated:
+            return 'Ajuste automático';
+        default:
+            return 'Original';
+    }
+};
+
+/**
+ * Fills the length fields of creations saved before the length unit and policy existed,
+ * when the only control was `characterCount`.
+ * @param params Generation parameters as saved, possibly from an older version.
+ * @returns The parameters with a length unit, target, narration pace and policy.
+ */
+export const withLengthDefaults = <T extends Partial<GenerationParams> & Pick<GenerationParams, 'language'>>(params: T & { characterCount?: number }): T & Pick<GenerationParams, 'lengthUnit' | 'targetLength' | 'speakingWpm' | 'lengthPolicy'> => ({
+    ...params,
+    lengthUnit: params.lengthUnit ?? LengthUnit.Characters,
+    targetLength: params.targetLength ?? params.characterCount ?? lengthUnitInfo[LengthUnit.Characters].defaultTarget,
+    speakingWpm: params.speakingWpm ?? getDefaultSpeakingWpm(params.language),
+    lengthPolicy: params.lengthPolicy ?? defaultLengthPolicy,
+});
@@ -0,0 +1,129 @@
+import { GenerationParams, LengthUnit } from "../types";
+
+/** The units the model is asked to respect; minutes are converted to words first. */
+export type PromptLengthUnit = LengthUnit.Characters | LengthUnit.Words;
+
+export interface LengthRange {
+    min: number;
+    max: number;
+    unit: PromptLengthUnit;
+}
+
+interface LengthUnitInfo {
+    label: string;
+    /** Default target when the user switches to this unit. */
+    defaultTarget: number;
+    minTarget: number;
+    step: number;
+}
+
+export const lengthUnitInfo: Record<LengthUnit, LengthUnitInfo> = {
+    [LengthUnit.Characters]: { label: 'Caracteres', defaultTarget: 1500, minTarget: 100, step: 50 },
+    [LengthUnit.Words]: { label: 'Palavras', defaultTarget: 250, minTarget: 20, step: 10 },
+    [LengthUnit.SpokenMinutes]: { label: 'Minutos de narração', defaultTarget: 2, minTarget: 0.5, step: 0.5 },
+    [LengthUnit.ReadingMinutes]: { label: 'Minutos de leitura', defaultTarget: 2, minTarget: 0.5, step: 0.5 },
+};
+
+/** Typical narration pace per language, in words per minute. Users can override it. */
+export const defaultSpeakingWpm: Record<string, number> = {
+    'pt-BR': 150,
+    'en-US': 150,
+    'es-ES': 160,
+    'fr-FR': 150,
+    'de-DE': 125,
+};
+
+/** Average silent reading speed per language, in words per minute. */
+export const readingWpm: Record<string, number> = {
+    'pt-BR': 180,
+    'en-US': 238,
+    'es-ES': 218,
+    'fr-FR': 195,
+    'de-DE': 179,
+};
+
+const FALLBACK_SPEAKING_WPM = 150;
+const FALLBACK_READING_WPM = 200;
+
+export const getDefaultSpeakingWpm = (language: string): number => defaultSpeakingWpm[language] ?? FALLBACK_SPEAKING_WPM;
+
+const getReadingWpm = (language: string): number => readingWpm[language] ?? FALLBACK_READING_WPM;
+
+/**
+ * Counts the words of a text, splitting on any whitespace.
+ */
+export const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Converts the user's target to the unit the model is asked to follow:
+ * characters stay as they are and every other unit becomes words.
+ * @param params The generation parameters.
+ * @returns The target amount and its unit.
+ */
+export const getTargetAmount = (params: GenerationParams): { amount: number; unit: PromptLengthUnit } => {
+    switch (params.lengthUnit) {
+        case LengthUnit.Characters:
+            return { amount: params.targetLength, unit: LengthUnit.Characters };
+        case LengthUnit.SpokenMinutes:
+            return { amount: params.targetLength * (params.speakingWpm || getDefaultSpeakingWpm(params.language)), unit: LengthUnit.Words };
+        case LengthUnit.ReadingMinutes:
+            return { amount: params.targetLength * getReadingWpm(params.language), unit: LengthUnit.Words };
+        default:
+            return { amount: params.targetLength, unit: LengthUnit.Words };
+    }
+};
+
+/**
+ * Measures a text in the unit of a length range.
+ */
+export const measureLength = (text: string, unit: PromptLengthUnit): number =>
+    unit === LengthUnit.Characters ? text.length : countWords(text);
+
+/**
+ * Checks whether a text falls within a length range.
+ */
+export const isWithinRange = (text: string, range: LengthRange): boolean => {
+    const length = measureLength(text, range.unit);
+    return length >= range.min && length <= range.max;
+};
+
+/**
+ * Returns the name of a range unit as written in the prompts and messages.
+ */
+export const getUnitName = (unit: PromptLengthUnit): string => unit === LengthUnit.Characters ? 'caracteres' : 'palavras';
+
+/**
+ * Finds how many characters of the text fit within the maximum of the range,
+ * so that truncation can work on characters whatever the unit.
+ * @param text The text to cut.
+ * @param range The accepted range.
+ * @returns The character index where the maximum is reached.
+ */
+export const getMaxCharacterIndex = (text: string, range: LengthRange): number => {
+    if (range.unit === LengthUnit.Characters) {
+        return range.max;
+    }
+    const words = Array.from(text.matchAll(/\S+/g));
+    const lastWord = words[Math.min(range.max, words.length) - 1];
+    return lastWord ? (lastWord.index ?? 0) + lastWord[0].length : 0;
+};
+
+const formatMinutes = (minutes: number): string =>
+    minutes.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Describes a text in every measure: characters, words, narration and reading time.
+ * @param text The text to describe.
+ * @param params The generation parameters, for the language and narration pace.
+ * @returns A short line such as "1.500 caracteres · 250 palavras · 1,7 min de narração · 1,4 min de leitura".
+ */
+export const describeLength = (text: string, params: GenerationParams): string => {
+    const words = countWords(text);
+    const speakingWpm = params.speakingWpm || getDefaultSpeakingWpm(params.language);
+    return [
+        `${text.length.toLocaleString('pt-BR')} caracteres`,
+        `${words.toLocaleString('pt-BR')} palavras`,
+        `${formatMinutes(words / speakingWpm)} min de narração`,
+        `${formatMinutes(words / getReadingWpm(params.language))} min de leitura`,
+    ].join(' · ');
+};
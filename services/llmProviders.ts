@@ -0,0 +1,369 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { LlmProviderId, ProviderSettings, TokenUsage } from "../types";
+import { createMockProvider } from "./mockProvider";
+import { GenerationCancelledError, ProviderHttpError, parseRetryAfterHeader } from "./aiErrors";
+
+/**
+ * A portable subset of JSON Schema used to describe structured responses.
+ * Every provider translates it to its own structured-output mechanism.
+ */
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    items?: JsonSchema;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    minItems?: number;
+    minLength?: number;
+}
+
+export interface LlmRequest {
+    prompt: string;
+    responseSchema?: JsonSchema;
+    /** Cancels the request; unlike the stop signal of a stream, nothing is kept. */
+    signal?: AbortSignal;
+}
+
+export interface LlmResponse {
+    text: string;
+    blockReason?: string;
+    stopped?: boolean;
+    usage?: TokenUsage;
+}
+
+export interface LlmProvider {
+    generate: (request: LlmRequest) => Promise<LlmResponse>;
+    /**
+     * Generates text incrementally, calling onChunk with the text received so far.
+     * Aborting the stop signal ends the stream early and resolves with the partial text.
+     */
+    stream: (request: LlmRequest, onChunk: (textSoFar: string) => void, stopSignal?: AbortSignal) => Promise<LlmResponse>;
+}
+
+interface ProviderInfo {
+    label: string;
+    defaultBaseUrl: string;
+    defaultModel: string;
+    requiresApiKey: boolean;
+}
+
+export const providerInfo: Record<LlmProviderId, ProviderInfo> = {
+    [LlmProviderId.Gemini]: {
+        label: 'Google Gemini',
+        defaultBaseUrl: '',
+        defaultModel: 'gemini-2.5-flash',
+        requiresApiKey: true,
+    },
+    [LlmProviderId.OpenAICompatible]: {
+        label: 'Compatível com OpenAI (OpenAI, llama.cpp...)',
+        defaultBaseUrl: 'https://api.openai.com/v1',
+        defaultModel: 'gpt-4o-mini',
+        requiresApiKey: false,
+    },
+    [LlmProviderId.Ollama]: {
+        label: 'Ollama (local)',
+        defaultBaseUrl: 'http://localhost:11434',
+        defaultModel: 'llama3.1',
+        requiresApiKey: false,
+    },
+    [LlmProviderId.Mock]: {
+        label: 'Simulado (desenvolvimento)',
+        defaultBaseUrl: '',
+        defaultModel: 'mock',
+        requiresApiKey: false,
+    },
+};
+
+/**
+ * Returns the default settings for a provider, keeping the given API key.
+ * @param provider The provider to build settings for.
+ * @param apiKey An optional API key to carry over.
+ * @returns A complete ProviderSettings object.
+ */
+export const getDefaultProviderSettings = (provider: LlmProviderId, apiKey = ''): ProviderSettings => ({
+    provider,
+    apiKey,
+    baseUrl: providerInfo[provider].defaultBaseUrl,
+    model: providerInfo[provider].defaultModel,
+});
+
+/**
+ * Checks whether the settings contain everything the provider needs to run.
+ */
+export const isProviderConfigured = (settings: ProviderSettings): boolean => {
+    const info = providerInfo[settings.provider];
+    if (info.requiresApiKey && !settings.apiKey) {
+        return false;
+    }
+    return !!settings.model && (!!settings.baseUrl || !info.defaultBaseUrl);
+};
+
+/**
+ * Raises an error carrying the HTTP status and Retry-After hint so the retry logic can classify it.
+ */
+const throwHttpError = async (response: Response): Promise<never> => {
+    const body = await response.text().catch(() => '');
+    throw new ProviderHttpError(response.status, body || response.statusText, parseRetryAfterHeader(response.headers.get('Retry-After')));
+};
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, '');
+
+/**
+ * Reads a nested value of a parsed JSON response, which can have any shape.
+ */
+const readPath = (value: unknown, ...path: (string | number)[]): unknown => path.reduce<unknown>(
+    (current, key) => current !== null && typeof current === 'object' ? (current as Record<string | number, unknown>)[key] : undefined,
+    value
+);
+
+const readString = (value: unknown, ...path: (string | number)[]): string | undefined => {
+    const found = readPath(value, ...path);
+    return typeof found === 'string' ? found : undefined;
+};
+
+const readNumber = (value: unknown, ...path: (string | number)[]): number | undefined => {
+    const found = readPath(value, ...path);
+    return typeof found === 'number' ? found : undefined;
+};
+
+/**
+ * Reads a streamed HTTP body line by line until it ends or the stop signal is aborted.
+ */
+const readLines = async (response: Response, onLine: (line: string) => void, stopSignal?: AbortSignal): Promise<void> => {
+    if (!response.body) {
+        return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (!stopSignal?.aborted) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.filter(line => line.trim()).forEach(onLine);
+    }
+    if (stopSignal?.aborted) {
+        await reader.cancel();
+    } else if (buffer.trim()) {
+        onLine(buffer);
+    }
+};
+
+/**
+ * Combines the cancel and stop signals of a streamed request into one.
+ */
+const combineSignals = (...signals: (AbortSignal | undefined)[]): AbortSignal | undefined => {
+    const present = signals.filter((signal): signal is AbortSignal => !!signal);
+    return present.length > 1 ? AbortSignal.any(present) : present[0];
+};
+
+/**
+ * Treats an abort of the stop signal as a normal end of stream. A cancelled request fails
+ * instead, so that its partial text is never taken for a full answer.
+ */
+const rethrowUnlessStopped = (error: unknown, signal?: AbortSignal, stopSignal?: AbortSignal): void => {
+    if (signal?.aborted) {
+        throw new GenerationCancelledError();
+    }
+    if (!stopSignal?.aborted) {
+        throw error;
+    }
+};
+
+const createGeminiProvider = (settings: ProviderSettings): LlmProvider => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+    const getConfig = (responseSchema?: JsonSchema) => responseSchema
+        ? { responseMimeType: "application/json", responseJsonSchema: responseSchema }
+        : {};
+    const getBlockReason = (response: GenerateContentResponse): string | undefined => response.promptFeedback?.blockReason
+        ?? (response.candidates?.[0]?.finishReason === 'SAFETY' ? 'SAFETY' : undefined);
+    // Thinking tokens are billed as output tokens.
+    const getUsage = (response: GenerateContentResponse): TokenUsage | undefined => response.usageMetadata && {
+        promptTokens: response.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: (response.usageMetadata.candidatesTokenCount ?? 0) + (response.usageMetadata.thoughtsTokenCount ?? 0),
+    };
+
+    return {
+        generate: async ({ prompt, responseSchema, signal }) => {
+            const response = await ai.models.generateContent({
+                model: settings.model,
+                contents: prompt,
+                config: { ...getConfig(responseSchema), abortSignal: signal },
+            });
+            return { text: response.text ?? '', blockReason: getBlockReason(response), usage: getUsage(response) };
+        },
+        stream: async ({ prompt, responseSchema, signal }, onChunk, stopSignal) => {
+            let text = '';
+            let blockReason: string | undefined;
+            let usage: TokenUsage | undefined;
+            try {
+                const stream = await ai.models.generateContentStream({
+                    model: settings.model,
+                    contents: prompt,
+                    config: { ...getConfig(responseSchema), abortSignal: combineSignals(signal, stopSignal) },
+                });
+                for await (const chunk of stream) {
+                    if (signal?.aborted) {
+                        throw new GenerationCancelledError();
+                    }
+                    if (stopSignal?.aborted) {
+                        break;
+                    }
+                    text += chunk.text ?? '';
+                    blockReason = blockReason ?? getBlockReason(chunk);
+                    usage = getUsage(chunk) ?? usage;
+                    onChunk(text);
+                }
+            } catch (error) {
+                rethrowUnlessStopped(error, signal, stopSignal);
+            }
+            return { text, blockReason, usage, stopped: !!stopSignal?.aborted };
+        },
+    };
+};
+
+const createOpenAICompatibleProvider = (settings: ProviderSettings): LlmProvider => {
+    const request = async ({ prompt, responseSchema, signal }: LlmRequest, stream: boolean, stopSignal?: AbortSignal): Promise<Response> => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) {
+            headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        }
+        const response = await fetch(`${trimSlash(settings.baseUrl)}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal: combineSignals(signal, stopSignal),
+            body: JSON.stringify({
+                model: settings.model,
+                messages: [{ role: 'user', content: prompt }],
+                response_format: responseSchema
+                    ? { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } }
+                    : undefined,
+                stream,
+                stream_options: stream ? { include_usage: true } : undefined,
+            }),
+        });
+        if (!response.ok) {
+            await throwHttpError(response);
+        }
+        return response;
+    };
+    const getBlockReason = (finishReason?: string): string | undefined =>
+        finishReason === 'content_filter' ? 'CONTENT_FILTER' : undefined;
+    const getUsage = (data: unknown): TokenUsage | undefined => readPath(data, 'usage') ? {
+        promptTokens: readNumber(data, 'usage', 'prompt_tokens') ?? 0,
+        outputTokens: readNumber(data, 'usage', 'completion_tokens') ?? 0,
+    } : undefined;
+
+    return {
+        generate: async (llmRequest) => {
+            const response = await request(llmRequest, false);
+            const data: unknown = await response.json();
+            return {
+                text: readString(data, 'choices', 0, 'message', 'content') ?? '',
+                blockReason: getBlockReason(readString(data, 'choices', 0, 'finish_reason')),
+                usage: getUsage(data),
+            };
+        },
+        stream: async (llmRequest, onChunk, stopSignal) => {
+            let text = '';
+            let blockReason: string | undefined;
+            let usage: TokenUsage | undefined;
+            try {
+                const response = await request(llmRequest, true, stopSignal);
+                await readLines(response, (line) => {
+                    // Server-sent events also carry comments (": keep-alive") and event names; only data lines hold chunks.
+                    if (!line.startsWith('data:')) {
+                        return;
+                    }
+                    const payload = line.slice('data:'.length).trim();
+                    if (payload === '[DONE]') {
+                        return;
+                    }
+                    const data: unknown = JSON.parse(payload);
+                    text += readString(data, 'choices', 0, 'delta', 'content') ?? '';
+                    blockReason = blockReason ?? getBlockReason(readString(data, 'choices', 0, 'finish_reason'));
+                    usage = getUsage(data) ?? usage;
+                    onChunk(text);
+                }, stopSignal);
+            } catch (error) {
+                rethrowUnlessStopped(error, llmRequest.signal, stopSignal);
+            }
+            return { text, blockReason, usage, stopped: !!stopSignal?.aborted };
+        },
+    };
+};
+
+const createOllamaProvider = (settings: ProviderSettings): LlmProvider => {
+    const request = async ({ prompt, responseSchema, signal }: LlmRequest, stream: boolean, stopSignal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${trimSlash(settings.baseUrl)}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            signal: combineSignals(signal, stopSignal),
+            body: JSON.stringify({
+                model: settings.model,
+                messages: [{ role: 'user', content: prompt }],
+                format: responseSchema,
+                stream,
+            }),
+        });
+        if (!response.ok) {
+            await throwHttpError(response);
+        }
+        return response;
+    };
+    const getUsage = (data: unknown): TokenUsage | undefined => readPath(data, 'done') ? {
+        promptTokens: readNumber(data, 'prompt_eval_count') ?? 0,
+        outputTokens: readNumber(data, 'eval_count') ?? 0,
+    } : undefined;
+
+    return {
+        generate: async (llmRequest) => {
+            const response = await request(llmRequest, false);
+            const data: unknown = await response.json();
+            return { text: readString(data, 'message', 'content') ?? '', usage: getUsage(data) };
+        },
+        stream: async (llmRequest, onChunk, stopSignal) => {
+            let text = '';
+            let usage: TokenUsage | undefined;
+            try {
+                const response = await request(llmRequest, true, stopSignal);
+                await readLines(response, (line) => {
+                    const data: unknown = JSON.parse(line);
+                    text += readString(data, 'message', 'content') ?? '';
+                    usage = getUsage(data) ?? usage;
+                    onChunk(text);
+                }, stopSignal);
+            } catch (error) {
+                rethrowUnlessStopped(error, llmRequest.signal, stopSignal);
+            }
+            return { text, usage, stopped: !!stopSignal?.aborted };
+        },
+    };
+};
+
+/**
+ * Creates the provider selected in the settings.
+ * Throws an error if the settings are incomplete.
+ * @param settings The user-selected provider settings.
+ * @returns An LlmProvider ready to generate text.
+ */
+export const getProvider = (settings: ProviderSettings): LlmProvider => {
+    if (!isProviderConfigured(settings)) {
+        // This error is a safeguard, but the UI should prevent calls without saved settings.
+        throw new Error(`As configurações do provedor ${providerInfo[settings.provider].label} estão incompletas.`);
+    }
+    switch (settings.provider) {
+        case LlmProviderId.Gemini:
+            return createGeminiProvider(settings);
+        case LlmProviderId.OpenAICompatible:
+            return createOpenAICompatibleProvider(settings);
+        case LlmProviderId.Ollama:
+            return createOllamaProvider(settings);
+        case LlmProviderId.Mock:
+            return createMockProvider(settings);
+    }
+};
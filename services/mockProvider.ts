@@ -0,0 +1,204 @@
+import { MockScenario, ProviderSettings } from "../types";
+import { JsonSchema, LlmProvider, LlmRequest, LlmResponse } from "./llmProviders";
+import { ProviderHttpError } from "./aiErrors";
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_CHUNK_SIZE = 60;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+const FIXTURE_PARAGRAPH = 'No princípio era o Verbo, e o Verbo estava com Deus. Naquele tempo, um pastor caminhava pelos campos de Belém, lembrando das promessas feitas aos seus pais. A cada passo, sentia que o Senhor o conduzia por veredas de justiça. ';
+const FIXTURE_SHORT_TEXT = 'Texto simulado para desenvolvimento: que a paz do Senhor esteja com você hoje e sempre.';
+const FIXTURE_LIST = ['Fé', 'Esperança', 'Amor', 'Graça', 'Redenção', 'Perdão', 'Oração', 'Bíblia', 'Jesus', 'Salvação'];
+
+/**
+ * Ready-made scripts for the developer settings. Each call consumes the next
+ * scenario of the script and the last one repeats once the script ends.
+ */
+export const mockScriptPresets: { label: string; script: MockScenario[] }[] = [
+    { label: 'Respostas normais', script: [MockScenario.Normal] },
+    { label: 'Conteúdo longo demais', script: [MockScenario.TooLong] },
+    { label: 'Conteúdo curto demais', script: [MockScenario.TooShort] },
+    { label: 'Longo demais e depois ajustado', script: [MockScenario.TooLong, MockScenario.Normal] },
+    { label: 'JSON malformado', script: [MockScenario.MalformedJson] },
+    { label: 'JSON incompleto e depois reparado', script: [MockScenario.PartialJson, MockScenario.Normal] },
+    { label: 'JSON incompleto persistente', script: [MockScenario.PartialJson] },
+    { label: 'Sobrecarga (503) e depois sucesso', script: [MockScenario.Overloaded, MockScenario.Overloaded, MockScenario.Normal] },
+    { label: 'Sobrecarga (503) persistente', script: [MockScenario.Overloaded] },
+    { label: 'Limite de requisições (429) e depois sucesso', script: [MockScenario.RateLimited, MockScenario.Normal] },
+    { label: 'Cota esgotada (429)', script: [MockScenario.QuotaExceeded] },
+    { label: 'Chave de API inválida (401)', script: [MockScenario.InvalidKey] },
+    { label: 'Falha de rede', script: [MockScenario.NetworkFailure] },
+    { label: 'Bloqueio de segurança', script: [MockScenario.SafetyBlock] },
+];
+
+let scriptPosition = 0;
+
+/**
+ * Restarts the mock script from its first scenario.
+ */
+export const resetMockScript = (): void => {
+    scriptPosition = 0;
+};
+
+const nextScenario = (script: MockScenario[]): MockScenario => {
+    if (script.length === 0) {
+        return MockScenario.Normal;
+    }
+    const scenario = script[Math.min(scriptPosition, script.length - 1)];
+    scriptPosition++;
+    return scenario;
+};
+
+interface LengthBand {
+    min: number;
+    max: number;
+    inWords: boolean;
+}
+
+/**
+ * Reads the "entre X e Y caracteres" (or "palavras") band that the service writes into its prompts.
+ */
+const findLengthBand = (text: string): LengthBand | null => {
+    const match = text.match(/entre (\d+) e (\d+) (caracteres|palavras)/);
+    return match ? { min: Number(match[1]), max: Number(match[2]), inWords: match[3] === 'palavras' } : null;
+};
+
+/**
+ * Builds deterministic text of the requested length from the fixture paragraph.
+ */
+const buildText = (length: number, inWords: boolean): string => {
+    let text = '';
+    while ((inWords ? text.split(/\s+/).filter(Boolean).length : text.length) < length) {
+        text += FIXTURE_PARAGRAPH;
+    }
+    return inWords
+        ? text.split(/\s+/).filter(Boolean).slice(0, length).join(' ')
+        : text.substring(0, length).trimEnd();
+};
+
+const buildContent = (band: LengthBand | null, scenario: MockScenario): string => {
+    if (!band) {
+        return FIXTURE_SHORT_TEXT;
+    }
+    switch (scenario) {
+        case MockScenario.TooLong:
+            return buildText(Math.round(band.max * 1.5), band.inWords);
+        case MockScenario.TooShort:
+            return buildText(Math.round(band.min * 0.5), band.inWords);
+        default:
+            return buildText(Math.round((band.min + band.max) / 2), band.inWords);
+    }
+};
+
+/**
+ * Builds a value matching the schema, using the field descriptions to find length targets.
+ */
+const buildFromSchema = (schema: JsonSchema, scenario: MockScenario): unknown => {
+    switch (schema.type) {
+        case 'array':
+            return schema.items?.type === 'string' || !schema.items
+                ? [...FIXTURE_LIST]
+                : FIXTURE_LIST.map(() => buildFromSchema(schema.items as JsonSchema, scenario));
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property]) => [
+                key,
+                buildFromSchema(property, scenario),
+            ]));
+        case 'number':
+        case 'integer':
+            return 1;
+        case 'boolean':
+            return true;
+        default:
+            return buildContent(findLengthBand(schema.description ?? ''), scenario);
+    }
+};
+
+/**
+ * Builds a response that parses but breaks the schema: arrays come back empty and,
+ * in objects, the first property is missing and the second has the wrong type.
+ */
+const buildPartialFromSchema = (schema: JsonSchema): unknown => {
+    if (schema.type === 'array') {
+        return [];
+    }
+    const complete = buildFromSchema(schema, MockScenario.Normal) as Record<string, unknown>;
+    const [missing, wrongType] = Object.keys(complete);
+    const { [missing]: _missing, ...partial } = complete;
+    return wrongType ? { ...partial, [wrongType]: null } : partial;
+};
+
+/**
+ * Simulates network latency, failing like fetch does when the request is aborted.
+ */
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    if (signal?.aborted) {
+        onAbort();
+        return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Produces the scripted response for a single call.
+ */
+const respond = async ({ prompt, responseSchema, signal }: LlmRequest, script: MockScenario[]): Promise<LlmResponse> => {
+    const scenario = nextScenario(script);
+    await delay(MOCK_LATENCY_MS, signal);
+
+    switch (scenario) {
+        case MockScenario.Overloaded:
+            throw new ProviderHttpError(503, '{"error":{"code":503,"message":"The model is overloaded. Please try again later.","status":"UNAVAILABLE"}}');
+        case MockScenario.RateLimited:
+            throw new ProviderHttpError(429, '{"error":{"code":429,"message":"Rate limit reached for requests per minute.","status":"RESOURCE_EXHAUSTED"}}', 3000);
+        case MockScenario.QuotaExceeded:
+            throw new ProviderHttpError(429, '{"error":{"code":429,"message":"Quota exceeded for metric: GenerateRequestsPerDayPerProjectPerModel.","status":"RESOURCE_EXHAUSTED"}}');
+        case MockScenario.InvalidKey:
+            throw new ProviderHttpError(400, '{"error":{"code":400,"message":"API key not valid. Please pass a valid API key.","status":"INVALID_ARGUMENT"}}');
+        case MockScenario.NetworkFailure:
+            throw new TypeError('Failed to fetch');
+        case MockScenario.SafetyBlock:
+            return { text: '', blockReason: 'SAFETY' };
+        case MockScenario.MalformedJson:
+            return { text: responseSchema ? '```json\n{"content": "Texto interrompido...' : FIXTURE_SHORT_TEXT };
+        case MockScenario.PartialJson:
+            if (responseSchema) {
+                return { text: JSON.stringify(buildPartialFromSchema(responseSchema)) };
+            }
+            break;
+    }
+
+    const text = responseSchema
+        ? JSON.stringify(buildFromSchema(responseSchema, scenario))
+        : buildContent(findLengthBand(prompt), scenario);
+    // Roughly four characters per token, like the real tokenizers.
+    return { text, usage: { promptTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) } };
+};
+
+/**
+ * Creates an offline provider that answers with deterministic fixtures.
+ * It follows the script in the settings so every error path can be exercised locally.
+ * @param settings The provider settings holding the mock script.
+ * @returns An LlmProvider that never touches the network.
+ */
+export const createMockProvider = (settings: ProviderSettings): LlmProvider => ({
+    generate: (request) => respond(request, settings.mockScript ?? []),
+    stream: async (request, onChunk, stopSignal) => {
+        const response = await respond(request, settings.mockScript ?? []);
+        let sent = 0;
+        while (sent < response.text.length && !stopSignal?.aborted) {
+            sent = Math.min(response.text.length, sent + MOCK_CHUNK_SIZE);
+            onChunk(response.text.substring(0, sent));
+            await delay(MOCK_CHUNK_DELAY_MS, request.signal);
+        }
+        return { ...response, text: response.text.substring(0, sent), stopped: !!stopSignal?.aborted };
+    },
+});
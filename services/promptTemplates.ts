@@ -0,0 +1,438 @@
+export enum PromptTemplateId {
+    Base = 'base',
+    Enhance = 'enhance',
+    Content = 'content',
+    RefineShorten = 'refineShorten',
+    RefineExpand = 'refineExpand',
+    Titles = 'titles',
+    Description = 'description',
+    Tags = 'tags',
+    Cta = 'cta',
+    Thumbnail = 'thumbnail',
+    AllContent = 'allContent',
+    Outline = 'outline',
+    Section = 'section',
+    Smooth = 'smooth',
+    Repair = 'repair',
+    DoctrinalReview = 'doctrinalReview',
+    SeriesMemory = 'seriesMemory',
+}
+
+export interface PromptTemplateDefinition {
+    label: string;
+    /** Bumped whenever the built-in text changes, so edited copies can be flagged as outdated. */
+    revision: number;
+    /** Placeholders specific to this template, on top of the common ones. */
+    placeholders: string[];
+    template: string;
+}
+
+export interface PromptTemplateOverride {
+    template: string;
+    /** The revision of the built-in template the user started from. */
+    baseRevision: number;
+}
+
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
+
+export interface StoredPromptTemplates {
+    version: number;
+    overrides: PromptTemplateOverrides;
+}
+
+export type PromptValues = Record<string, string | number | undefined>;
+
+/** Version of the registry layout; stored overrides are migrated when it increases. */
+export const PROMPT_REGISTRY_VERSION = 2;
+
+/**
+ * Migrations from each registry version to the next one. A migration receives the
+ * overrides saved under its version and returns them in the layout of the next version,
+ * e.g. after a template id or a placeholder is renamed.
+ */
+const registryMigrations: Record<number, (overrides: Record<string, PromptTemplateOverride>) => Record<string, PromptTemplateOverride>> = {
+    // Version 2 measures the content in the unit chosen by the user instead of always in characters.
+    1: overrides => Object.fromEntries(Object.entries(overrides).map(([id, override]) => [id, {
+        ...override,
+        template: override.template
+            .replace(/\{([#/]?)minChars\}/g, '{$1minLength}')
+            .replace(/\{([#/]?)maxChars\}/g, '{$1maxLength}')
+            .replace(/\{(maxLength|textLength)\} caracteres/g, '{$1} {lengthUnit}'),
+    }])),
+};
+
+/** Placeholders available in every template. */
+export const commonPlaceholders: Record<string, string> = {
+    creationType: 'Tipo de criação (ex.: história bíblica)',
+    structureRules: 'Regras de estrutura do tipo de criação',
+    language: 'Idioma do conteúdo',
+    mainPrompt: 'Ideia principal',
+    titlePrompt: 'Desejo para o título',
+    descriptionPrompt: 'Desejo para a descrição',
+    thumbnailPrompt: 'Desejo para a thumbnail',
+    minLength: 'Tamanho mínimo do conteúdo',
+    maxLength: 'Tamanho máximo do conteúdo',
+    lengthUnit: 'Unidade do tamanho (caracteres ou palavras)',
+    modification: 'Modificação pedida na regeneração',
+    passages: 'Passagens bíblicas escolhidas, com a tradução e o texto (vazio sem passagens)',
+    doctrinalProfile: 'Diretrizes do perfil doutrinário; sem este campo, elas são acrescentadas ao fim do prompt',
+    series: 'Série e episódio, resumo dos episódios anteriores e personagens (vazio fora de uma série)',
+};
+
+/** Descriptions of the placeholders that only some templates receive. */
+export const specificPlaceholders: Record<string, string> = {
+    basePrompt: 'Contexto comum (modelo "Contexto base")',
+    content: 'Início do conteúdo gerado (vazio antes de o texto existir)',
+    textToEdit: 'Texto a ser ajustado',
+    textLength: 'Tamanho atual do texto a ser ajustado',
+    invalidFields: 'Campos a refazer, com suas regras',
+    validFields: 'Campos já válidos do pacote (JSON)',
+    sectionCount: 'Número de seções do texto longo',
+    outline: 'Roteiro completo, com as seções e seus acontecimentos',
+    sectionNumber: 'Número da seção sendo escrita',
+    sectionTitle: 'Título da seção sendo escrita',
+    sectionBeats: 'Acontecimentos da seção sendo escrita',
+    sectionMin: 'Tamanho mínimo da seção',
+    sectionMax: 'Tamanho máximo da seção',
+    previousSummary: 'Resumo das seções já escritas (vazio na primeira)',
+};
+
+export const defaultPromptTemplates: Record<PromptTemplateId, PromptTemplateDefinition> = {
+    [PromptTemplateId.Base]: {
+        label: 'Contexto base',
+        revision: 3,
+        placeholders: [],
+        template: `Você é um assistente criativo especializado em criar conteúdo cristão inspirador no idioma {language}.
+Tipo de Criação: {creationType}.
+Ideia Principal: "{mainPrompt}".{#passages}
+Passagens bíblicas de referência. O conteúdo DEVE permanecer fiel a elas, sem contradizê-las nem inventar detalhes que as alterem, e toda citação delas deve seguir a tradução indicada:
+{passages}{/passages}{#series}
+Este conteúdo é um episódio de uma série. Mantenha a continuidade: não contradiga o que já aconteceu, mantenha os nomes, traços e o tom dos personagens e não reconte os episódios anteriores.
+{series}{/series}`,
+    },
+    [PromptTemplateId.Enhance]: {
+        label: 'Aprimorar ideia',
+        revision: 2,
+        placeholders: [],
+        template: `Aprimore a seguinte ideia para uma {creationType}, tornando-a mais detalhada, evocativa e com maior potencial narrativo.
+Ideia Original: "{mainPrompt}"
+Retorne APENAS a nova ideia aprimorada, sem qualquer outro texto ou introdução.`,
+    },
+    [PromptTemplateId.Content]: {
+        label: 'Conteúdo principal',
+        revision: 3,
+        placeholders: ['basePrompt'],
+        template: `{basePrompt}
+Sua tarefa é gerar o conteúdo principal para a {creationType}.
+
+REGRAS ESTRITAS:
+1.  O texto final DEVE OBRIGATORIAMENTE ter entre {minLength} e {maxLength} {lengthUnit}. Esta é a regra mais importante.
+2.  Dentro dessa faixa de tamanho: {structureRules}
+3.  Responda apenas com o texto da {creationType}, sem títulos, introduções ou qualquer outro texto.
+
+{#modification}Modificação solicitada: "{modification}"{/modification}
+
+Cumpra rigorosamente todas as regras acima.`,
+    },
+    [PromptTemplateId.RefineShorten]: {
+        label: 'Ajuste de tamanho: resumir',
+        revision: 3,
+        placeholders: ['textToEdit', 'textLength'],
+        template: `Sua tarefa é RESUMIR o texto a seguir. O resumo deve capturar a essência da {creationType}, mantendo sua estrutura: {structureRules}
+
+Contexto Original:
+- Tipo de Criação: {creationType}
+- Ideia Principal: "{mainPrompt}"
+- Idioma: {language}
+
+Texto Original (Comprimento: {textLength} {lengthUnit}):
+---
+{textToEdit}
+---
+
+REGRAS ESTRITAS E OBRIGATÓRIAS:
+1.  O resultado final DEVE ter entre {minLength} e {maxLength} {lengthUnit}. Esta é a prioridade máxima.
+2.  A {creationType} deve permanecer completa e coerente.
+3.  Retorne APENAS o texto finalizado, sem nenhuma explicação, introdução ou comentário.`,
+    },
+    [PromptTemplateId.RefineExpand]: {
+        label: 'Ajuste de tamanho: expandir',
+        revision: 2,
+        placeholders: ['textToEdit', 'textLength'],
+        template: `Sua tarefa é EXPANDIR o texto a seguir. Adicione detalhes descritivos, aprofunde os pensamentos ou diálogos para enriquecer a narrativa sem alterar a história central.
+
+Contexto Original:
+- Tipo de Criação: {creationType}
+- Ideia Principal: "{mainPrompt}"
+- Idioma: {language}
+
+Texto Original (Comprimento: {textLength} {lengthUnit}):
+---
+{textToEdit}
+---
+
+REGRAS ESTRITAS E OBRIGATÓRIAS:
+1.  O resultado final DEVE ter entre {minLength} e {maxLength} {lengthUnit}. Esta é a prioridade máxima.
+2.  A {creationType} deve permanecer completa e coerente.
+3.  Retorne APENAS o texto finalizado, sem nenhuma explicação, introdução ou comentário.`,
+    },
+    [PromptTemplateId.Titles]: {
+        label: 'Títulos',
+        revision: 2,
+        placeholders: ['basePrompt', 'content'],
+        template: `{basePrompt}
+{#content}Texto final já escrito:
+---
+{content}
+---
+{/content}Gere 5 sugestões de títulos criativos e atraentes{#content}, fiéis ao texto acima{/content}.
+{#titlePrompt}Leve em consideração o seguinte desejo para o título: "{titlePrompt}"{/titlePrompt}
+{#modification}Modificação solicitada: "{modification}"{/modification}
+Retorne a resposta como um array JSON de strings. Exemplo: ["Título 1", "Título 2"]`,
+    },
+    [PromptTemplateId.Description]: {
+        label: 'Descrição',
+        revision: 2,
+        placeholders: ['basePrompt', 'content'],
+        template: `{basePrompt}
+{#content}Texto final já escrito:
+---
+{content}
+---
+{/content}Gere uma descrição concisa e envolvente (para redes sociais ou YouTube) com no máximo 250 caracteres{#content}, fiel ao texto acima{/content}.
+{#descriptionPrompt}Leve em consideração o seguinte desejo para a descrição: "{descriptionPrompt}"{/descriptionPrompt}
+{#modification}Modificação solicitada: "{modification}"{/modification}
+Retorne apenas o texto da descrição.`,
+    },
+    [PromptTemplateId.Tags]: {
+        label: 'Tags de SEO',
+        revision: 2,
+        placeholders: ['basePrompt', 'content'],
+        template: `{basePrompt}
+{#content}Texto final já escrito:
+---
+{content}
+---
+{/content}Gere uma lista de 10 a 15 tags de SEO relevantes.
+{#modification}Modificação solicitada: "{modification}"{/modification}
+Retorne a resposta como um array JSON de strings. Exemplo: ["tag1", "tag2"]`,
+    },
+    [PromptTemplateId.Cta]: {
+        label: 'Chamada para Ação (CTA)',
+        revision: 2,
+        placeholders: ['basePrompt', 'content'],
+        template: `{basePrompt}
+{#content}Texto final já escrito:
+---
+{content}
+---
+{/content}Gere uma "Chamada para Ação" (Call to Action - CTA) curta e inspiradora que incentive o engajamento (curtir, comentar, compartilhar).
+{#modification}Modificação solicitada: "{modification}"{/modification}
+Retorne apenas o texto do CTA.`,
+    },
+    [PromptTemplateId.Thumbnail]: {
+        label: 'Prompt para Thumbnail',
+        revision: 1,
+        placeholders: ['basePrompt', 'content'],
+        template: `{basePrompt}
+Com base no conteúdo gerado abaixo, crie um prompt detalhado para um gerador de imagens (como Midjourney ou DALL-E) para criar uma thumbnail.
+Conteúdo: "{content}..."
+{#thumbnailPrompt}Leve em consideração o seguinte desejo para a thumbnail: "{thumbnailPrompt}"{/thumbnailPrompt}
+{#modification}Modificação solicitada: "{modification}"{/modification}
+O prompt para a imagem deve ser em inglês, descritivo, e focado em elementos visuais, atmosfera e estilo.
+Retorne apenas o prompt para a imagem.`,
+    },
+    [PromptTemplateId.AllContent]: {
+        label: 'Gerar tudo',
+        revision: 3,
+        placeholders: ['basePrompt'],
+        template: `{basePrompt}
+
+Gere um pacote completo de conteúdo, seguindo as regras para cada item:
+1.  titles: 5 sugestões de títulos. {#titlePrompt}(Desejo: {titlePrompt}){/titlePrompt}
+2.  description: Uma descrição de até 250 caracteres. {#descriptionPrompt}(Desejo: {descriptionPrompt}){/descriptionPrompt}
+3.  tags: Uma lista de 10-15 tags de SEO.
+4.  cta: Uma "Chamada para Ação" (CTA).
+5.  thumbnailPrompt: Um prompt em inglês para gerar uma thumbnail, baseado na {creationType}. {#thumbnailPrompt}(Desejo: {thumbnailPrompt}){/thumbnailPrompt}
+6.  content: O conteúdo principal da {creationType}. REGRAS: O texto final DEVE OBRIGATORIAMENTE ter entre {minLength} e {maxLength} {lengthUnit}. {structureRules}
+
+A resposta DEVE ser um objeto JSON bem formado com a estrutura definida no schema, com os campos na ordem acima (content por último).`,
+    },
+    [PromptTemplateId.Outline]: {
+        label: 'Texto longo: roteiro',
+        revision: 1,
+        placeholders: ['basePrompt', 'sectionCount'],
+        template: `{basePrompt}
+Sua tarefa é planejar uma {creationType} longa, que terá entre {minLength} e {maxLength} {lengthUnit} e será escrita seção por seção.
+
+Divida a {creationType} em {sectionCount} seções que, juntas, formem uma obra completa, com início, meio e fim bem definidos.
+Para cada seção, dê um título curto (title) e de 3 a 5 acontecimentos (beats), em ordem.
+
+{#modification}Modificação solicitada: "{modification}"{/modification}
+
+A resposta DEVE ser um objeto JSON bem formado com a lista de seções (sections).`,
+    },
+    [PromptTemplateId.Section]: {
+        label: 'Texto longo: seção',
+        revision: 1,
+        placeholders: ['basePrompt', 'outline', 'sectionCount', 'sectionNumber', 'sectionTitle', 'sectionBeats', 'sectionMin', 'sectionMax', 'previousSummary'],
+        template: `{basePrompt}
+Você está escrevendo uma {creationType} longa, seção por seção, a partir do roteiro abaixo.
+
+Roteiro:
+{outline}
+
+{#previousSummary}Resumo do que já foi escrito:
+{previousSummary}
+
+{/previousSummary}Escreva agora a seção {sectionNumber} de {sectionCount}: "{sectionTitle}".
+Acontecimentos desta seção:
+{sectionBeats}
+
+REGRAS ESTRITAS:
+1.  content: o texto desta seção, com entre {sectionMin} e {sectionMax} {lengthUnit}.
+2.  Continue de onde a seção anterior parou, sem repetir acontecimentos nem recomeçar a história. Não escreva o título da seção.
+3.  Só a primeira seção apresenta a história e só a última a conclui.
+4.  summary: um resumo de 2 a 3 frases do que acontece nesta seção, para orientar as próximas.
+
+{#modification}Modificação solicitada: "{modification}"{/modification}
+
+A resposta DEVE ser um objeto JSON bem formado com os campos content e summary.`,
+    },
+    [PromptTemplateId.Smooth]: {
+        label: 'Texto longo: revisão das transições',
+        revision: 1,
+        placeholders: ['textToEdit'],
+        template: `Sua tarefa é REVISAR a {creationType} a seguir, que foi escrita em seções separadas, para que ela seja lida como um texto único.
+
+Contexto Original:
+- Tipo de Criação: {creationType}
+- Ideia Principal: "{mainPrompt}"
+- Idioma: {language}
+
+Texto:
+---
+{textToEdit}
+---
+
+REGRAS ESTRITAS E OBRIGATÓRIAS:
+1.  Suavize as passagens entre as seções, removendo repetições e recomeços. Não resuma nem corte acontecimentos.
+2.  O resultado final DEVE ter entre {minLength} e {maxLength} {lengthUnit}.
+3.  Retorne APENAS o texto revisado, sem nenhuma explicação, introdução ou comentário.`,
+    },
+    [PromptTemplateId.Repair]: {
+        label: 'Reparo de campos inválidos',
+        revision: 1,
+        placeholders: ['basePrompt', 'invalidFields', 'validFields'],
+        template: `{basePrompt}
+
+Um pacote de conteúdo foi gerado, mas alguns campos vieram ausentes ou em formato inválido.
+Gere APENAS os campos abaixo, seguindo as regras de cada um e mantendo coerência com o restante do pacote:
+{invalidFields}
+
+Campos já gerados (não os repita):
+{validFields}
+
+A resposta DEVE ser um objeto JSON bem formado contendo somente os campos pedidos.`,
+    },
+    [PromptTemplateId.DoctrinalReview]: {
+        label: 'Revisão doutrinária',
+        revision: 1,
+        placeholders: ['textToEdit'],
+        template: `Sua tarefa é REVISAR a {creationType} abaixo antes da publicação, conferindo se ela respeita o perfil doutrinário do ministério.
+
+Perfil doutrinário:
+{doctrinalProfile}
+
+Texto:
+---
+{textToEdit}
+---
+
+Aponte cada trecho que contradiga o perfil, use um termo a evitar ou trate um tema sensível sem o cuidado pedido. Para cada um, dê:
+- excerpt: o trecho exato, copiado do texto, com no máximo uma frase;
+- issue: qual é o conflito com o perfil;
+- suggestion: como reescrever o trecho.
+Não aponte questões de estilo. Se não houver conflitos, retorne a lista vazia.
+
+A resposta DEVE ser um objeto JSON bem formado com a lista de conflitos (conflicts).`,
+    },
+    [PromptTemplateId.SeriesMemory]: {
+        label: 'Série: memória do episódio',
+        revision: 1,
+        placeholders: ['textToEdit'],
+        template: `Você acompanha a continuidade de uma série, cujos episódios são escritos separadamente.
+
+{series}
+
+Episódio recém-escrito:
+---
+{textToEdit}
+---
+
+Registre o que os próximos episódios precisam saber:
+- summary: um resumo de 3 a 5 frases do que acontece neste episódio, com os fatos que não podem ser contraditos depois;
+- characters: os personagens que aparecem neste episódio, cada um com name e description (papel, traços e fatos importantes até aqui). Use os mesmos nomes já usados na série.
+
+Escreva no idioma {language}. A resposta DEVE ser um objeto JSON bem formado com os campos summary e characters.`,
+    },
+};
+
+const SECTION_PATTERN = /\{#(\w+)\}([\s\S]*?)\{\/\1\}/g;
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+const hasValue = (value: string | number | undefined): boolean => value !== undefined && value !== '';
+
+/**
+ * Fills a template. `{name}` is replaced by its value and `{#name}...{/name}` is kept
+ * only when the value is not empty. Unknown placeholders are left untouched.
+ * @param template The template text.
+ * @param values The values of the placeholders.
+ * @returns The rendered prompt.
+ */
+export const renderTemplate = (template: string, values: PromptValues): string => template
+    .replace(SECTION_PATTERN, (_match, name: string, body: string) => hasValue(values[name]) ? body : '')
+    .replace(PLACEHOLDER_PATTERN, (match, name: string) => name in values ? String(values[name] ?? '') : match);
+
+/**
+ * Returns the text of a template, preferring the user's override.
+ */
+export const getTemplateText = (id: PromptTemplateId, overrides: PromptTemplateOverrides = {}): string =>
+    overrides[id]?.template ?? defaultPromptTemplates[id].template;
+
+/**
+ * Checks whether an override was based on an older revision of the built-in template.
+ */
+export const isOverrideOutdated = (id: PromptTemplateId, overrides: PromptTemplateOverrides): boolean => {
+    const override = overrides[id];
+    return !!override && override.baseRevision < defaultPromptTemplates[id].revision;
+};
+
+/**
+ * Lists the placeholders of a template that the template does not receive, usually typos.
+ * @param id The template being edited.
+ * @param template The edited text.
+ * @returns The unknown placeholder names.
+ */
+export const findUnknownPlaceholders = (id: PromptTemplateId, template: string): string[] => {
+    const known = new Set([...Object.keys(commonPlaceholders), ...defaultPromptTemplates[id].placeholders]);
+    const names = Array.from(template.matchAll(/\{[#/]?(\w+)\}/g), match => match[1]);
+    return Array.from(new Set(names.filter(name => !known.has(name))));
+};
+
+/**
+ * Reads the overrides saved by any version of the app, migrating them to the current registry.
+ * Overrides of templates that no longer exist are dropped.
+ * @param stored The parsed value saved in localStorage.
+ * @returns The overrides for the current registry.
+ */
+export const migratePromptTemplates = (stored: Partial<StoredPromptTemplates> | null | undefined): PromptTemplateOverrides => {
+    let overrides: Record<string, PromptTemplateOverride> = stored?.overrides ?? {};
+    for (let version = stored?.version ?? 1; version < PROMPT_REGISTRY_VERSION; version++) {
+        overrides = registryMigrations[version]?.(overrides) ?? overrides;
+    }
+    const knownIds = new Set<string>(Object.values(PromptTemplateId));
+    return Object.fromEntries(
+        Object.entries(overrides).filter(([id, override]) => knownIds.has(id) && typeof override?.template === 'string')
+    ) as PromptTemplateOverrides;
+};
@@ -0,0 +1,5 @@
+/**
+ * Escapes the characters that have a meaning in a regular expression, so that a text
+ * typed by the user matches literally.
+ */
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
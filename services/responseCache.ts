@@ -0,0 +1,117 @@
+export interface CacheSettings {
+    enabled: boolean;
+    /** How long a response can be reused, in hours. */
+    ttlHours: number;
+    /** Maximum number of stored responses; the least recently used are dropped first. */
+    maxEntries: number;
+}
+
+interface CacheEntry {
+    key: string;
+    value: unknown;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export const defaultCacheSettings: CacheSettings = {
+    enabled: false,
+    ttlHours: 24,
+    maxEntries: 100,
+};
+
+const CACHE_STORAGE_KEY = 'responseCache';
+
+const isCacheEntry = (value: unknown): value is CacheEntry => {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const entry = value as Record<string, unknown>;
+    return typeof entry.key === 'string' && 'value' in entry && typeof entry.createdAt === 'number' && typeof entry.lastUsedAt === 'number';
+};
+
+/**
+ * Reads the stored entries; anything other than a list of entries counts as an empty cache.
+ */
+const readEntries = (): CacheEntry[] => {
+    try {
+        const saved = localStorage.getItem(CACHE_STORAGE_KEY);
+        const parsed: unknown = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) && parsed.every(isCacheEntry) ? parsed : [];
+    } catch (e) {
+        console.error("Failed to read the response cache:", e);
+        return [];
+    }
+};
+
+const writeEntries = (entries: CacheEntry[]): void => {
+    try {
+        localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+        // Usually the storage quota: the cache is only an optimization, so start over.
+        console.warn("Failed to save the response cache, clearing it:", e);
+        localStorage.removeItem(CACHE_STORAGE_KEY);
+    }
+};
+
+/**
+ * Drops expired entries and keeps the most recently used ones within the size cap.
+ */
+const pruneEntries = (entries: CacheEntry[], settings: CacheSettings, now: number): CacheEntry[] => {
+    const cutoff = now - settings.ttlHours * 60 * 60 * 1000;
+    return entries
+        .filter(entry => entry.createdAt >= cutoff)
+        .sort((a, b) => b.lastUsedAt - a.lastUsedAt)
+        .slice(0, Math.max(0, settings.maxEntries));
+};
+
+/**
+ * Hashes everything that determines a response into a cache key.
+ * @param parts The rendered prompt, model and request configuration.
+ * @returns A SHA-256 hex digest, or null where the browser has no Web Crypto, as on a page
+ * served over plain http from another host than localhost; the cache is then skipped.
+ */
+export const buildCacheKey = async (parts: Record<string, unknown>): Promise<string | null> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        return null;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Looks up a stored response that has not expired yet.
+ * @param key The cache key of the request.
+ * @param settings The cache settings.
+ * @returns The stored response, or undefined on a miss.
+ */
+export const getCachedResponse = <T>(key: string, settings: CacheSettings): T | undefined => {
+    const now = Date.now();
+    const entries = pruneEntries(readEntries(), settings, now);
+    const entry = entries.find(item => item.key === key);
+    if (entry) {
+        entry.lastUsedAt = now;
+    }
+    writeEntries(entries);
+    return entry?.value as T | undefined;
+};
+
+/**
+ * Stores a response, replacing any previous one under the same key.
+ */
+export const setCachedResponse = (key: string, value: unknown, settings: CacheSettings): void => {
+    const now = Date.now();
+    const entries = readEntries().filter(item => item.key !== key);
+    writeEntries(pruneEntries([{ key, value, createdAt: now, lastUsedAt: now }, ...entries], settings, now));
+};
+
+/**
+ * Returns the number of responses currently stored.
+ */
+export const getResponseCacheSize = (): number => readEntries().length;
+
+/**
+ * Removes every stored response.
+ */
+export const clearResponseCache = (): void => {
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+};
@@ -0,0 +1,104 @@
+import { Creation, LengthTrail, Revision, RevisionField, RevisionSource } from "../types";
+
+export const revisionSourceLabels: Record<RevisionSource, string> = {
+    [RevisionSource.Generated]: 'Gerado',
+    [RevisionSource.Regenerated]: 'Regenerado',
+    [RevisionSource.Refined]: 'Ajuste de tamanho',
+    [RevisionSource.Edited]: 'Edição manual',
+    [RevisionSource.Restored]: 'Restaurado',
+};
+
+export const revisionFields: RevisionField[] = ['content', 'titles', 'description', 'tags', 'cta', 'thumbnailPrompt'];
+
+let revisionCounter = 0;
+
+/**
+ * Creates a revision of a field.
+ * @param field The field the value belongs to.
+ * @param value The value of the field.
+ * @param source What produced the value.
+ * @param details The modification of a regeneration, or the revision a value was restored from.
+ * @returns The revision.
+ */
+export const createRevision = (
+    field: RevisionField,
+    value: string | string[],
+    source: RevisionSource,
+    details: Pick<Revision, 'modification' | 'restoredFrom'> = {}
+): Revision => ({
+    id: `revision-${Date.now()}-${revisionCounter++}`,
+    timestamp: Date.now(),
+    field,
+    value,
+    source,
+    ...(details.modification ? { modification: details.modification } : {}),
+    ...(details.restoredFrom ? { restoredFrom: details.restoredFrom } : {}),
+});
+
+/**
+ * Writes the value of a revision as text, one title or tag per line.
+ */
+export const formatRevisionValue = (value: string | string[]): string => Array.isArray(value) ? value.join('\n') : value;
+
+const isEmptyValue = (value: string | string[] | undefined): boolean => Array.isArray(value) ? value.length === 0 : !value;
+
+/**
+ * Returns the revisions of one field, oldest first.
+ */
+export const getFieldRevisions = (revisions: Revision[] | undefined, field: RevisionField): Revision[] =>
+    (revisions ?? []).filter(revision => revision.field === field);
+
+/**
+ * Gives the fields that have no revision yet their saved value as a first revision, so that the
+ * value of a creation saved before revisions existed is not lost when the field changes.
+ * @param creation The creation as saved.
+ * @param fields The fields about to change.
+ * @returns The revisions of the creation.
+ */
+export const withBaselineRevisions = (creation: Pick<Creation, 'timestamp' | 'revisions'> & Partial<Creation>, fields: RevisionField[]): Revision[] => {
+    const revisions = [...(creation.revisions ?? [])];
+    for (const field of fields) {
+        const savedValue = creation.outputs?.[field];
+        if (getFieldRevisions(revisions, field).length === 0 && !isEmptyValue(savedValue)) {
+            revisions.push({ ...createRevision(field, savedValue, RevisionSource.Generated), timestamp: creation.timestamp });
+        }
+    }
+    return revisions;
+};
+
+/**
+ * Adds revisions to a creation. A field saved before revisions existed first gets its saved
+ * value as a baseline, and a revision equal to the latest one of its field is not repeated.
+ * @param creation The creation as saved.
+ * @param added The new revisions, in order.
+ * @returns The revisions of the creation.
+ */
+export const appendRevisions = (creation: Pick<Creation, 'timestamp' | 'revisions'> & Partial<Creation>, added: Revision[]): Revision[] => {
+    const revisions = withBaselineRevisions(creation, added.map(revision => revision.field));
+    for (const revision of added) {
+        const latest = getFieldRevisions(revisions, revision.field).pop();
+        if (isEmptyValue(revision.value) || (latest && formatRevisionValue(latest.value) === formatRevisionValue(revision.value))) {
+            continue;
+        }
+        revisions.push(revision);
+    }
+    return revisions;
+};
+
+/**
+ * Turns the length trail of a new main text into revisions: the text as written by the
+ * model and, when the length fitting replaced it, the text that was kept.
+ * @param trail The trail of the length fitting.
+ * @param source Whether the text was generated or regenerated.
+ * @param modification The modification asked for in a regeneration.
+ * @returns The revisions of the content, oldest first.
+ */
+export const getContentRevisions = (trail: LengthTrail, source: RevisionSource, modification?: string): Revision[] => {
+    const [written] = trail.candidates;
+    const kept = trail.candidates[trail.selected];
+    const revisions = [createRevision('content', written.content, source, { modification })];
+    if (kept !== written) {
+        revisions.push(createRevision('content', kept.content, RevisionSource.Refined));
+    }
+    return revisions;
+};
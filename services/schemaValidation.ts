@@ -0,0 +1,45 @@
+import { JsonSchema } from "./llmProviders";
+
+/**
+ * Checks a parsed value against the subset of JSON Schema used by the service.
+ * @param value The parsed response.
+ * @param schema The schema the response should follow.
+ * @returns True if the value matches the schema.
+ */
+export const matchesSchema = (value: unknown, schema: JsonSchema): boolean => {
+    switch (schema.type) {
+        case 'string':
+            return typeof value === 'string' && value.trim().length >= (schema.minLength ?? 0);
+        case 'number':
+            return typeof value === 'number' && !isNaN(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'array':
+            return Array.isArray(value)
+                && value.length >= (schema.minItems ?? 0)
+                && (!schema.items || value.every(item => matchesSchema(item, schema.items as JsonSchema)));
+        case 'object':
+            return isPlainObject(value) && findInvalidProperties(value, schema).length === 0;
+    }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the properties of an object response that are missing or do not match their schema.
+ * A value that is not an object at all has every property invalid.
+ * @param value The parsed response.
+ * @param schema An object schema.
+ * @returns The names of the invalid properties, in schema order.
+ */
+export const findInvalidProperties = (value: unknown, schema: JsonSchema): string[] => {
+    const properties = schema.properties ?? {};
+    const required = new Set(schema.required ?? []);
+    const object = isPlainObject(value) ? value : {};
+    return Object.keys(properties).filter(key => object[key] === undefined
+        ? required.has(key)
+        : !matchesSchema(object[key], properties[key]));
+};
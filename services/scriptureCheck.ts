@@ -0,0 +1,432 @@
+import { BibleBook, BibleTranslation, bibleTranslations, getBibleTranslation, getBookAliases, getBookName, stripAccents, toBookKey } from "./bibleBooks";
+import { getQuotePairs } from "./textTruncation";
+import { kjvVerseCounts } from "./bibleVerseCounts";
+
+/** The verses of each book by chapter, keyed by the book id: `text[id][chapter - 1][verse - 1]`. */
+export type BibleText = Record<string, string[][]>;
+
+export enum ScriptureIssueKind {
+    UnknownBook = 'unknownBook',
+    ChapterOutOfRange = 'chapterOutOfRange',
+    VerseOutOfRange = 'verseOutOfRange',
+    Misquote = 'misquote',
+}
+
+export interface ScriptureQuote {
+    text: string;
+    start: number;
+    end: number;
+}
+
+export interface ScriptureReference {
+    /** The reference as written in the content. */
+    text: string;
+    start: number;
+    end: number;
+    /** The book, or null when the name is not a book of the Bible. */
+    book: BibleBook | null;
+    /** The book the unknown name most likely meant, when it looks like a misspelling. */
+    suggestion?: BibleBook;
+    chapter: number;
+    verse?: number;
+    endChapter?: number;
+    endVerse?: number;
+    /** The quotation written right before or after the reference. */
+    quote?: ScriptureQuote;
+}
+
+export interface ScriptureIssue {
+    kind: ScriptureIssueKind;
+    message: string;
+}
+
+export interface ScriptureCheck {
+    reference: ScriptureReference;
+    issues: ScriptureIssue[];
+}
+
+export interface ScriptureReport {
+    checks: ScriptureCheck[];
+    translation: BibleTranslation;
+    /** Whether the verses could be checked, which needs the bundled text of the translation. */
+    hasBibleText: boolean;
+}
+
+/**
+ * A chapter, an optional verse and an optional range end, right after a word such as a book name.
+ * A verse follows ":" or, without spaces, "." and "," ("João 3.16", "Johannes 3,16").
+ */
+const REFERENCE_NUMBERS = /(?<=[\p{L}.][ \t]{0,2})(\d{1,3})(?:(?::[ \t]?|[.,])(\d{1,3}))?(?:[ \t]?[-–][ \t]?(\d{1,3})(?:(?::|[.,])(\d{1,3}))?)?(?:ss|ff?|[ab])?(?![\p{L}\d])/gu;
+
+/** How many words a book name may have, as in "Cantar de los Cantares". */
+const MAX_NAME_WORDS = 4;
+/** Shorter names, mostly abbreviations, only count as a reference when they come with a verse. */
+const MIN_CHAPTER_ONLY_NAME = 4;
+/** Share of the words of a quotation that must appear, in order, in the verses it cites. */
+const MIN_QUOTE_MATCH = 0.75;
+/** Quotations shorter than this are not compared. */
+const MIN_QUOTE_WORDS = 4;
+const MAX_QUOTE_LENGTH = 800;
+
+interface NameToken {
+    text: string;
+    start: number;
+}
+
+/**
+ * Lists the words right before a position, nearest last, as long as only spaces separate them.
+ */
+const getNameTokens = (text: string, end: number): NameToken[] => {
+    const offset = Math.max(0, end - 80);
+    const before = text.slice(offset, end);
+    const tokens = Array.from(before.matchAll(/[\p{L}\d]+(?:[ªº]|\.)?/gu), match => ({ text: match[0], start: offset + (match.index ?? 0) }));
+    const adjacent: NameToken[] = [];
+    let limit = end;
+    for (let i = tokens.length - 1; i >= 0 && adjacent.length < MAX_NAME_WORDS + 1; i--) {
+        const gap = text.slice(tokens[i].start + tokens[i].text.length, limit);
+        if (!/^\s*$/.test(gap) || (adjacent.length > 0 && gap.length === 0)) break;
+        adjacent.unshift(tokens[i]);
+        limit = tokens[i].start;
+    }
+    return adjacent;
+};
+
+const isOrdinalToken = (token: string) => /^(\d[ªº.]?|I{1,3})$/.test(token);
+const startsLikeName = (name: string) => /^[\p{Lu}\d]/u.test(name);
+
+/**
+ * Computes the edit distance between two words.
+ */
+const getEditDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+interface ResolvedName {
+    start: number;
+    book: BibleBook | null;
+    suggestion?: BibleBook;
+    key: string;
+}
+
+/**
+ * Finds the book named right before the numbers of a reference, trying the longest name first.
+ * Names that are not books are still reported when they carry a number no book has
+ * ("3 Coríntios") or look like a misspelled book ("Habacuc" in Portuguese); anything else
+ * is not taken as a reference.
+ */
+const resolveBookName = (text: string, numbersStart: number, language: string, hasVerse: boolean): ResolvedName | null => {
+    const aliases = getBookAliases(language);
+    const tokens = getNameTokens(text, numbersStart);
+    const nameEnd = tokens.length > 0 ? tokens[tokens.length - 1].start + tokens[tokens.length - 1].text.length : numbersStart;
+
+    for (let count = tokens.length; count >= 1; count--) {
+        const start = tokens[tokens.length - count].start;
+        const name = text.slice(start, nameEnd);
+        const key = toBookKey(name);
+        const book = aliases.get(key);
+        if (book && startsLikeName(name)) {
+            return { start, book, key };
+        }
+    }
+
+    const last = tokens[tokens.length - 1];
+    if (!last || !/^\p{Lu}\p{L}+\.?$/u.test(last.text)) return null;
+    const ordinal = tokens.length > 1 && isOrdinalToken(tokens[tokens.length - 2].text) ? tokens[tokens.length - 2] : null;
+    const start = ordinal?.start ?? last.start;
+    const key = toBookKey(text.slice(start, nameEnd));
+    const plainKey = stripAccents(key);
+
+    if (ordinal) {
+        const nameKey = toBookKey(last.text);
+        const hasOtherNumber = aliases.has(nameKey) || [1, 2, 3].some(number => aliases.has(`${number}${nameKey}`));
+        if (hasOtherNumber) {
+            return { start, book: null, key };
+        }
+    }
+
+    if (!hasVerse || plainKey.replace(/\d/g, '').length < 5) return null;
+    const maxDistance = plainKey.length >= 7 ? 2 : 1;
+    let suggestion: { book: BibleBook; distance: number } | null = null;
+    for (const [aliasKey, book] of aliases) {
+        if (aliasKey.replace(/\d/g, '').length < 5) continue;
+        const distance = getEditDistance(plainKey, stripAccents(aliasKey));
+        if (distance <= maxDistance && (!suggestion || distance < suggestion.distance)) {
+            suggestion = { book, distance };
+        }
+    }
+    return suggestion ? { start, book: null, suggestion: suggestion.book, key } : null;
+};
+
+/**
+ * Finds the quotation written right before the reference (“...” (João 3:16))
+ * or right after it (João 3:16 diz: “...”).
+ */
+const findAdjacentQuote = (text: string, start: number, end: number, language: string): ScriptureQuote | undefined => {
+    const pairs = getQuotePairs(language);
+    const before = text.slice(0, start).match(/\s*[([—–-]?\s*$/);
+    const beforeEnd = start - (before?.[0].length ?? 0);
+    for (const [open, close] of pairs) {
+        if (beforeEnd > 0 && text[beforeEnd - 1] === close) {
+            const openIndex = text.lastIndexOf(open, beforeEnd - 2);
+            if (openIndex >= 0 && beforeEnd - openIndex <= MAX_QUOTE_LENGTH) {
+                return { text: text.slice(openIndex + 1, beforeEnd - 1), start: openIndex, end: beforeEnd };
+            }
+        }
+    }
+
+    const after = text.slice(end).match(/^\)?(?:[ \t]+\p{L}+){0,3}[ \t]*[:,—–-]?\s*/u);
+    const afterStart = end + (after?.[0].length ?? 0);
+    for (const [open, close] of pairs) {
+        if (text[afterStart] === open) {
+            const closeIndex = text.indexOf(close, afterStart + 1);
+            if (closeIndex > afterStart && closeIndex - afterStart <= MAX_QUOTE_LENGTH) {
+                return { text: text.slice(afterStart + 1, closeIndex), start: afterStart, end: closeIndex + 1 };
+            }
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Finds the Bible references in a text, with book names and abbreviations of its language.
+ * Single-chapter books take a lone number as the verse ("Judas 3").
+ * @param text The text to scan.
+ * @param language The language code of the text, such as 'pt-BR'.
+ * @returns The references in the order they appear.
+ */
+export const findScriptureReferences = (text: string, language: string): ScriptureReference[] => {
+    const references: ScriptureReference[] = [];
+    for (const match of text.matchAll(REFERENCE_NUMBERS)) {
+        const numbersStart = match.index ?? 0;
+        const [numbers, chapterText, verseText, rangeText, rangeVerseText] = match;
+        const resolved = resolveBookName(text, numbersStart, language, verseText !== undefined);
+        if (!resolved) continue;
+        if (resolved.book && verseText === undefined && resolved.key.replace(/\d/g, '').length < MIN_CHAPTER_ONLY_NAME) continue;
+
+        let chapter = Number(chapterText);
+        let verse = verseText !== undefined ? Number(verseText) : undefined;
+        let endChapter: number | undefined;
+        let endVerse: number | undefined;
+        if (rangeText !== undefined) {
+            if (verse !== undefined && rangeVerseText === undefined) {
+                endVerse = Number(rangeText);
+            } else {
+                endChapter = Number(rangeText);
+                endVerse = rangeVerseText !== undefined ? Number(rangeVerseText) : undefined;
+            }
+        }
+        if (resolved.book?.chapters === 1 && verse === undefined) {
+            verse = chapter;
+            endVerse = endChapter;
+            chapter = 1;
+            endChapter = undefined;
+        }
+
+        const end = numbersStart + numbers.length;
+        references.push({
+            text: text.slice(resolved.start, end),
+            start: resolved.start,
+            end,
+            book: resolved.book,
+            suggestion: resolved.suggestion,
+            chapter,
+            verse,
+            endChapter,
+            endVerse,
+            quote: findAdjacentQuote(text, resolved.start, end, language),
+        });
+    }
+    return references;
+};
+
+/**
+ * Writes a reference with the book name of a language, such as "João 3:16-18".
+ */
+export const formatReference = (reference: ScriptureReference, language: string): string => {
+    const { book, chapter, verse, endChapter, endVerse } = reference;
+    if (!book) return reference.text;
+    let formatted = `${getBookName(book, language)} ${chapter}`;
+    if (verse !== undefined) formatted += `:${verse}`;
+    if (endChapter !== undefined) {
+        formatted += `-${endChapter}${endVerse !== undefined ? `:${endVerse}` : ''}`;
+    } else if (endVerse !== undefined) {
+        formatted += `-${endVerse}`;
+    }
+    return formatted;
+};
+
+const toWords = (text: string): string[] =>
+    stripAccents(text.toLowerCase()).replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Measures the share of the words of a quotation found, in order, in a passage.
+ */
+const getQuoteMatch = (quoteWords: string[], passageWords: string[]): number => {
+    let previous = new Array(passageWords.length + 1).fill(0);
+    for (const word of quoteWords) {
+        const current = [0];
+        for (let j = 1; j <= passageWords.length; j++) {
+            current[j] = word === passageWords[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+        }
+        previous = current;
+    }
+    return previous[passageWords.length] / quoteWords.length;
+};
+
+/**
+ * Checks whether a quotation matches the passage it cites. Parts left out with an ellipsis
+ * are allowed, so each fragment is compared on its own.
+ */
+const isFaithfulQuote = (quote: string, passage: string): boolean => {
+    const passageWords = toWords(passage);
+    return quote
+        .split(/\[?(?:\.\.\.|…)\]?/)
+        .map(toWords)
+        .filter(words => words.length >= MIN_QUOTE_WORDS)
+        .every(words => getQuoteMatch(words, passageWords) >= MIN_QUOTE_MATCH);
+};
+
+/**
+ * Collects the verses of a passage. Without a verse the passage is the whole chapter,
+ * and without an end it is the single verse.
+ * @param chapters The chapters of the book in the Bible text.
+ * @param chapter The first chapter.
+ * @param verse The first verse, if any.
+ * @param endChapter The last chapter of a range across chapters.
+ * @param endVerse The last verse of the range.
+ * @returns The verse texts in order.
+ */
+export const getPassageVerses = (chapters: string[][], chapter: number, verse?: number, endChapter?: number, endVerse?: number): string[] => {
+    const lastChapter = endChapter ?? chapter;
+    const passage: string[] = [];
+    for (let current = chapter; current <= lastChapter; current++) {
+        const verses = chapters[current - 1] ?? [];
+        const from = current === chapter && verse !== undefined ? verse : 1;
+        let to = verses.length;
+        if (current === lastChapter && endVerse !== undefined) {
+            to = endVerse;
+        } else if (current === lastChapter && endChapter === undefined && verse !== undefined) {
+            to = verse;
+        }
+        passage.push(...verses.slice(from - 1, to));
+    }
+    return passage;
+};
+
+/**
+ * Counts the verses of each chapter of a book, from the text of the translation or, without it,
+ * from the King James Version, whose numbering the other public-domain translations mostly share.
+ * @param bookId The book code, such as 'JHN'.
+ * @param bibleText The verses of the translation, or null when unavailable.
+ * @returns The verse count of each chapter, empty for a book without counts.
+ */
+export const getVerseCounts = (bookId: string, bibleText: BibleText | null): number[] =>
+    bibleText?.[bookId]?.map(verses => verses.length) ?? kjvVerseCounts[bookId] ?? [];
+
+/**
+ * Checks one reference against the book registry and the verse counts. The quotation is
+ * checked only when the text of the translation is available.
+ */
+const checkReference = (reference: ScriptureReference, language: string, bibleText: BibleText | null, translation: BibleTranslation): ScriptureIssue[] => {
+    const { book, chapter, verse, endChapter, endVerse, quote } = reference;
+    if (!book) {
+        const suggestion = reference.suggestion ? ` Você quis dizer ${getBookName(reference.suggestion, language)}?` : '';
+        return [{ kind: ScriptureIssueKind.UnknownBook, message: `"${reference.text}" não corresponde a nenhum livro da Bíblia.${suggestion}` }];
+    }
+
+    const bookName = getBookName(book, language);
+    const chapters = bibleText?.[book.id];
+    const chapterCount = chapters?.length ?? book.chapters;
+    const lastChapter = endChapter ?? chapter;
+    if (chapter < 1 || chapter > chapterCount || lastChapter > chapterCount) {
+        return [{ kind: ScriptureIssueKind.ChapterOutOfRange, message: `${bookName} tem ${chapterCount} capítulo(s); o capítulo ${Math.max(chapter, lastChapter)} não existe.` }];
+    }
+    if (lastChapter < chapter) {
+        return [{ kind: ScriptureIssueKind.ChapterOutOfRange, message: `O intervalo de ${formatReference(reference, language)} termina antes de começar.` }];
+    }
+    if (verse === 0 || endVerse === 0) {
+        return [{ kind: ScriptureIssueKind.VerseOutOfRange, message: `${formatReference(reference, language)}: não existe versículo 0.` }];
+    }
+    if (endChapter === undefined && verse !== undefined && endVerse !== undefined && endVerse < verse) {
+        return [{ kind: ScriptureIssueKind.VerseOutOfRange, message: `O intervalo de ${formatReference(reference, language)} termina antes de começar.` }];
+    }
+
+    const verseCounts = getVerseCounts(book.id, bibleText);
+    const numbering = chapters ? '' : ` na numeração da ${bibleTranslations.en.name}`;
+    const firstVerses = verseCounts[chapter - 1];
+    const lastVerses = verseCounts[lastChapter - 1];
+    if (verse !== undefined && firstVerses !== undefined && verse > firstVerses) {
+        return [{ kind: ScriptureIssueKind.VerseOutOfRange, message: `${bookName} ${chapter} tem ${firstVerses} versículos${numbering}; o versículo ${verse} não existe.` }];
+    }
+    if (endVerse !== undefined && lastVerses !== undefined && endVerse > lastVerses) {
+        return [{ kind: ScriptureIssueKind.VerseOutOfRange, message: `${bookName} ${lastChapter} tem ${lastVerses} versículos${numbering}; o versículo ${endVerse} não existe.` }];
+    }
+
+    if (quote && chapters) {
+        const passage = getPassageVerses(chapters, chapter, verse, endChapter, endVerse);
+        if (!isFaithfulQuote(quote.text, passage.join(' '))) {
+            return [{ kind: ScriptureIssueKind.Misquote, message: `A citação não confere com ${formatReference(reference, language)} na ${translation.name}.` }];
+        }
+    }
+    return [];
+};
+
+/**
+ * Checks every Bible reference of a text.
+ * Without the bundled text of the translation, verses are checked against the numbering of the
+ * King James Version and quotations are not checked.
+ * @param text The text to check.
+ * @param language The language code of the text, such as 'pt-BR'.
+ * @param bibleText The verses of the translation of that language, or null when unavailable.
+ * @returns The references found, each with its issues.
+ */
+export const checkScriptureReferences = (text: string, language: string, bibleText: BibleText | null): ScriptureReport => {
+    const translation = getBibleTranslation(language);
+    return {
+        checks: findScriptureReferences(text, language).map(reference => ({
+            reference,
+            issues: checkReference(reference, language, bibleText, translation),
+        })),
+        translation,
+        hasBibleText: bibleText !== null,
+    };
+};
+
+const bibleTextCache = new Map<string, Promise<BibleText | null>>();
+
+/**
+ * Loads the bundled text of the translation of a language from `public/bible`, once.
+ * @param language The language code, such as 'pt-BR'.
+ * @returns The verses, or null when the file is not available.
+ */
+export const loadBibleText = (language: string): Promise<BibleText | null> => {
+    const { file } = getBibleTranslation(language);
+    let cached = bibleTextCache.get(file);
+    if (!cached) {
+        cached = fetch(`bible/${file}`)
+            .then(response => response.ok ? response.json() as Promise<BibleText> : null)
+            .catch(error => {
+                console.warn(`Could not load the Bible text ${file}:`, error);
+                return null;
+            });
+        bibleTextCache.set(file, cached);
+    }
+    return cached;
+};
+
+/**
+ * Finds and checks the Bible references of a text against the translation of its language.
+ * @param text The text to check.
+ * @param language The language code of the text, such as 'pt-BR'.
+ * @returns The report of every reference found.
+ */
+export const verifyScripture = async (text: string, language: string): Promise<ScriptureReport> =>
+    checkScriptureReferences(text, language, await loadBibleText(language));
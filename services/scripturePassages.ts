@@ -0,0 +1,97 @@
+import { GenerationParams, ScripturePassage } from "../types";
+import { BookLanguage, getBibleTranslation, getBookById, getBookLanguage, getBookName } from "./bibleBooks";
+import { getPassageVerses, getVerseCounts, loadBibleText } from "./scriptureCheck";
+
+/** Heading of the scripture section of the description, in the language of the content. */
+const scriptureSectionLabels: Record<BookLanguage, string> = {
+    pt: 'Passagens bíblicas',
+    en: 'Scripture',
+    es: 'Pasajes bíblicos',
+    fr: 'Passages bibliques',
+    de: 'Bibelstellen',
+};
+
+const SCRIPTURE_SECTION_MARK = '📖';
+
+/**
+ * Builds a passage from the local Bible index, with its text in the translation of the language.
+ * @param language The language code of the content, such as 'pt-BR'.
+ * @param bookId The book code, such as 'JHN'.
+ * @param chapter The chapter.
+ * @param verseStart The first verse; without it the passage is the whole chapter.
+ * @param verseEnd The last verse, if the passage has more than one.
+ * @returns The passage, with an empty text when the translation is not available.
+ * @throws {Error} If the book, chapter or verses do not exist.
+ */
+export const createPassage = async (language: string, bookId: string, chapter: number, verseStart?: number, verseEnd?: number): Promise<ScripturePassage> => {
+    const book = getBookById(bookId);
+    if (!book) {
+        throw new Error(`Livro desconhecido: ${bookId}.`);
+    }
+    const bibleText = await loadBibleText(language);
+    const chapters = bibleText?.[book.id];
+    const chapterCount = chapters?.length ?? book.chapters;
+    const bookName = getBookName(book, language);
+    if (chapter < 1 || chapter > chapterCount) {
+        throw new Error(`${bookName} tem ${chapterCount} capítulo(s).`);
+    }
+    if (verseStart !== undefined && (verseStart < 1 || (verseEnd !== undefined && verseEnd < verseStart))) {
+        throw new Error('O intervalo de versículos é inválido.');
+    }
+    const verseCount = getVerseCounts(book.id, bibleText)[chapter - 1];
+    if (verseCount !== undefined && (verseEnd ?? verseStart ?? 0) > verseCount) {
+        throw new Error(`${bookName} ${chapter} tem ${verseCount} versículos.`);
+    }
+
+    return {
+        bookId: book.id,
+        chapter,
+        verseStart,
+        verseEnd: verseStart !== undefined && verseEnd !== verseStart ? verseEnd : undefined,
+        translation: getBibleTranslation(language).name,
+        text: chapters ? getPassageVerses(chapters, chapter, verseStart, undefined, verseEnd).join(' ') : '',
+    };
+};
+
+/**
+ * Writes the reference of a passage with the book name of a language, such as "João 3:16-18".
+ */
+export const formatPassage = (passage: ScripturePassage, language: string): string => {
+    const book = getBookById(passage.bookId);
+    const bookName = book ? getBookName(book, language) : passage.bookId;
+    const verses = passage.verseStart !== undefined
+        ? `:${passage.verseStart}${passage.verseEnd !== undefined ? `-${passage.verseEnd}` : ''}`
+        : '';
+    return `${bookName} ${passage.chapter}${verses}`;
+};
+
+/**
+ * Lists the passages for the prompt, each with its translation and text. A passage whose text
+ * could not be loaded is sent as a theme only, telling the model that it does not have the text.
+ * @returns The prompt lines, or an empty string when there are no passages.
+ */
+export const formatPassagesForPrompt = (passages: ScripturePassage[], language: string): string => passages
+    .map(passage => passage.text
+        ? `${formatPassage(passage, language)} (${passage.translation}):\n"${passage.text}"`
+        : `${formatPassage(passage, language)}: o texto desta passagem não está disponível. Use-a apenas como tema, sem citá-la entre aspas e sem atribuir a ela palavras ou detalhes que não possa confirmar.`)
+    .join('\n\n');
+
+/**
+ * Adds the scripture section to a description, listing the passages the content is based on
+ * and the translations of the ones whose text the model was given. A section added before is
+ * replaced, so the description can be regenerated or edited without repeating it.
+ * @param description The description as generated.
+ * @param params The generation parameters, with the chosen passages.
+ * @returns The description with the scripture section, or as it was without passages.
+ */
+export const withScriptureSection = (description: string, params: GenerationParams): string => {
+    const passages = params.passages ?? [];
+    const withoutSection = description.split(`\n\n${SCRIPTURE_SECTION_MARK} `)[0];
+    if (passages.length === 0 || !withoutSection) {
+        return withoutSection;
+    }
+    const references = passages.map(passage => formatPassage(passage, params.language)).join('; ');
+    const translations = Array.from(new Set(passages.filter(passage => passage.text).map(passage => passage.translation))).join(', ');
+    const label = scriptureSectionLabels[getBookLanguage(params.language)];
+    return `${withoutSection}\n\n${SCRIPTURE_SECTION_MARK} ${label}: ${references}${translations ? ` (${translations})` : ''}`;
+};
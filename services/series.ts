@@ -0,0 +1,168 @@
+import { Creation, GenerationParams, Series, SeriesCharacter } from "../types";
+import { BookLanguage, getBookLanguage } from "./bibleBooks";
+import { escapeRegExp } from "./regExp";
+
+/** What the continuity pass keeps from an episode. */
+export interface EpisodeMemory {
+    summary: string;
+    /** The characters of the episode, new or with an updated description. */
+    characters: SeriesCharacter[];
+}
+
+export interface SeriesGroup {
+    /** The series, or null for the creations that are not part of one. */
+    series: Series | null;
+    creations: Creation[];
+}
+
+/** How many tags of the first episode become the tags of the whole series. */
+export const SERIES_TAG_COUNT = 5;
+
+/** The word for an episode in the titles, in the language of the content. */
+const episodeLabels: Record<BookLanguage, string> = {
+    pt: 'Episódio',
+    en: 'Episode',
+    es: 'Episodio',
+    fr: 'Épisode',
+    de: 'Folge',
+};
+
+const toKey = (text: string) => text.trim().toLocaleLowerCase();
+
+/**
+ * Starts a new series with an empty synopsis.
+ * @param name The name of the series, such as "A vida de José".
+ * @returns The series.
+ * @throws {Error} If the name is empty.
+ */
+export const createSeries = (name: string): Series => {
+    if (!name.trim()) {
+        throw new Error('O nome da série não pode estar vazio.');
+    }
+    return { id: `series-${Date.now()}`, name: name.trim(), timestamp: Date.now(), synopsis: [], characters: [], tags: [] };
+};
+
+/**
+ * Returns the number of the episode that follows the last saved one of a series.
+ */
+export const getNextEpisodeNumber = (history: Creation[], seriesId: string): number =>
+    Math.max(0, ...history.filter(c => c.params.seriesId === seriesId).map(c => c.params.episodeNumber ?? 0)) + 1;
+
+/**
+ * Writes the continuity context of an episode for the prompt: the series, what happened
+ * in the earlier episodes and the characters established so far.
+ * @param series The series of the content.
+ * @param episodeNumber The episode being written.
+ * @returns The context, or an empty string outside a series.
+ */
+export const formatSeriesForPrompt = (series: Series | undefined, episodeNumber: number | undefined): string => {
+    if (!series || !episodeNumber) return '';
+    const lines = [`Série: "${series.name}", episódio ${episodeNumber}.`];
+    const previous = series.synopsis.filter(episode => episode.episodeNumber < episodeNumber);
+    if (previous.length > 0) {
+        lines.push('', 'Anteriormente na série:', ...previous.map(episode => `- Episódio ${episode.episodeNumber}: ${episode.summary}`));
+    }
+    if (series.characters.length > 0) {
+        lines.push('', 'Personagens:', ...series.characters.map(character => `- ${character.name}: ${character.description}`));
+    }
+    return lines.join('\n');
+};
+
+/**
+ * Prefixes the titles of an episode with the series name and episode number, replacing a
+ * prefix added before, so every episode of a series is titled the same way.
+ * @param titles The titles as generated.
+ * @param params The generation parameters, with the episode number and language.
+ * @param series The series of the content.
+ * @returns The numbered titles, or the titles as they were outside a series.
+ */
+export const withEpisodeTitles = (titles: string[], params: GenerationParams, series: Series | undefined): string[] => {
+    if (!series || !params.episodeNumber) return titles;
+    const label = episodeLabels[getBookLanguage(params.language)];
+    const previousPrefix = new RegExp(`^${escapeRegExp(series.name)} – ${escapeRegExp(label)} \\d+: `);
+    return titles.map(title => `${series.name} – ${label} ${params.episodeNumber}: ${title.replace(previousPrefix, '')}`);
+};
+
+/**
+ * Puts the series tags first in the tags of an episode, without repeating any of them.
+ * @param tags The tags as generated.
+ * @param series The series of the content.
+ * @returns The tags of the episode.
+ */
+export const withSeriesTags = (tags: string[], series: Series | undefined): string[] => {
+    if (!series || series.tags.length === 0) return tags;
+    const seriesKeys = new Set(series.tags.map(toKey));
+    return [...series.tags, ...tags.filter(tag => !seriesKeys.has(toKey(tag)))];
+};
+
+/**
+ * Adds what an episode established to the memory of the series. The summary replaces the one
+ * of an earlier version of the same episode, and characters are matched by name. When the
+ * series has no tags yet, the first tags of the episode become the series tags.
+ * @param series The series.
+ * @param episodeNumber The episode the memory comes from.
+ * @param memory The summary and characters of the episode.
+ * @param episodeTags The tags generated for the episode.
+ * @returns The updated series.
+ */
+export const mergeEpisodeMemory = (series: Series, episodeNumber: number, memory: EpisodeMemory, episodeTags: string[]): Series => {
+    const synopsis = [
+        ...series.synopsis.filter(episode => episode.episodeNumber !== episodeNumber),
+        { episodeNumber, summary: memory.summary.trim() },
+    ].sort((a, b) => a.episodeNumber - b.episodeNumber);
+
+    const characters = [...series.characters];
+    for (const character of memory.characters) {
+        const index = characters.findIndex(known => toKey(known.name) === toKey(character.name));
+        if (index > -1) {
+            characters[index] = { name: characters[index].name, description: character.description };
+        } else {
+            characters.push(character);
+        }
+    }
+
+    const tags = series.tags.length > 0 ? series.tags : episodeTags.filter(Boolean).slice(0, SERIES_TAG_COUNT);
+    return { ...series, synopsis, characters, tags };
+};
+
+/**
+ * Writes the characters as "Name: description" lines, for editing.
+ */
+export const formatCharacterList = (characters: SeriesCharacter[]): string =>
+    characters.map(character => `${character.name}: ${character.description}`).join('\n');
+
+/**
+ * Reads the "Name: description" lines typed by the user, dropping empty ones.
+ */
+export const parseCharacterList = (text: string): SeriesCharacter[] => text
+    .split('\n')
+    .map(line => {
+        const separator = line.indexOf(':');
+        return separator === -1
+            ? { name: line.trim(), description: '' }
+            : { name: line.slice(0, separator).trim(), description: line.slice(separator + 1).trim() };
+    })
+    .filter(character => character.name);
+
+/**
+ * Groups the history by series for display: each series with its episodes in order,
+ * most recent series first, then the creations that are not part of a series.
+ * @param history The saved creations, most recent first.
+ * @param seriesList The saved series.
+ * @returns The groups, without empty series.
+ */
+export const groupHistoryBySeries = (history: Creation[], seriesList: Series[]): SeriesGroup[] => {
+    const groups: SeriesGroup[] = seriesList
+        .map(series => ({
+            series,
+            creations: history
+                .filter(creation => creation.params.seriesId === series.id)
+                .sort((a, b) => (a.params.episodeNumber ?? 0) - (b.params.episodeNumber ?? 0)),
+        }))
+        .filter(group => group.creations.length > 0)
+        .sort((a, b) => Math.max(...b.creations.map(c => c.timestamp)) - Math.max(...a.creations.map(c => c.timestamp)));
+
+    const seriesIds = new Set(seriesList.map(series => series.id));
+    const standalone = history.filter(creation => !creation.params.seriesId || !seriesIds.has(creation.params.seriesId));
+    return standalone.length > 0 ? [...groups, { series: null, creations: standalone }] : groups;
+};
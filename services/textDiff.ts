@@ -0,0 +1,91 @@
+export enum DiffKind {
+    Equal = 'equal',
+    Added = 'added',
+    Removed = 'removed',
+}
+
+export interface DiffPart {
+    kind: DiffKind;
+    text: string;
+}
+
+/**
+ * Above this many cells the comparison table would be too slow to build; the changed
+ * middle of the texts is then shown as removed and added as a whole.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Splits a text into words and the whitespace between them, so that joining the tokens
+ * gives the text back.
+ */
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+
+/**
+ * Adds a part to the diff, merging it with the previous one when they are of the same kind.
+ */
+const pushPart = (parts: DiffPart[], kind: DiffKind, text: string) => {
+    if (!text) return;
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) {
+        last.text += text;
+    } else {
+        parts.push({ kind, text });
+    }
+};
+
+/**
+ * Compares two texts word by word, using the longest common subsequence of their words.
+ * @param before The older text.
+ * @param after The newer text.
+ * @returns The parts of the texts in order, each equal, added or removed.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const parts: DiffPart[] = [];
+    pushPart(parts, DiffKind.Equal, a.slice(0, prefix).join(''));
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    const rows = middleA.length;
+    const columns = middleB.length;
+
+    if ((rows + 1) * (columns + 1) > MAX_DIFF_CELLS) {
+        pushPart(parts, DiffKind.Removed, middleA.join(''));
+        pushPart(parts, DiffKind.Added, middleB.join(''));
+    } else {
+        // lengths[i * (columns + 1) + j]: common subsequence length of middleA[i..] and middleB[j..]
+        const lengths = new Uint32Array((rows + 1) * (columns + 1));
+        for (let i = rows - 1; i >= 0; i--) {
+            for (let j = columns - 1; j >= 0; j--) {
+                lengths[i * (columns + 1) + j] = middleA[i] === middleB[j]
+                    ? lengths[(i + 1) * (columns + 1) + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * (columns + 1) + j], lengths[i * (columns + 1) + j + 1]);
+            }
+        }
+        let i = 0;
+        let j = 0;
+        while (i < rows && j < columns) {
+            if (middleA[i] === middleB[j]) {
+                pushPart(parts, DiffKind.Equal, middleA[i]);
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * (columns + 1) + j] >= lengths[i * (columns + 1) + j + 1]) {
+                pushPart(parts, DiffKind.Removed, middleA[i++]);
+            } else {
+                pushPart(parts, DiffKind.Added, middleB[j++]);
+            }
+        }
+        pushPart(parts, DiffKind.Removed, middleA.slice(i).join(''));
+        pushPart(parts, DiffKind.Added, middleB.slice(j).join(''));
+    }
+
+    pushPart(parts, DiffKind.Equal, a.slice(a.length - suffix).join(''));
+    return parts;
+};
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findSentenceEnds, smartTruncate } from './textTruncation';
+
+/** Cuts the text right after the given passage, so that only what comes before it fits. */
+const lengthUpTo = (text: string, passage: string): number => text.indexOf(passage) + passage.length;
+
+const runCases = () => {
+    it('returns a text that already fits unchanged', () => {
+        expect(smartTruncate('Tudo cabe aqui.', 100)).toBe('Tudo cabe aqui.');
+    });
+
+    it('does not end a sentence at a verse number', () => {
+        const text = 'Leia João 3.16 com atenção. Depois ore em silêncio.';
+        expect(findSentenceEnds(text, 'pt-BR')).not.toContain(lengthUpTo(text, 'João 3.'));
+        expect(smartTruncate(text, lengthUpTo(text, 'ore'), 'pt-BR')).toBe('Leia João 3.16 com atenção.');
+    });
+
+    it('does not end a sentence at an abbreviation', () => {
+        const pt = 'O Dr. Silva leu o cap. 3 de Rute. Depois orou.';
+        expect(smartTruncate(pt, lengthUpTo(pt, 'Depois'), 'pt-BR')).toBe('O Dr. Silva leu o cap. 3 de Rute.');
+        const en = 'Mr. Smith read it to Mrs. Brown. Then he prayed.';
+        expect(smartTruncate(en, lengthUpTo(en, 'Then'), 'en-US')).toBe('Mr. Smith read it to Mrs. Brown.');
+        const de = 'Vgl. dazu Kap. 3 bei Dr. Luther. Dann betete er.';
+        expect(smartTruncate(de, lengthUpTo(de, 'Dann'), 'de-DE')).toBe('Vgl. dazu Kap. 3 bei Dr. Luther.');
+    });
+
+    it.each([
+        ['pt-BR', 'Ele disse: “Não temas. Eu estou contigo.” Depois partiu.', 'Ele disse: “Não temas. Eu estou contigo.”'],
+        ['en-US', 'He said: “Fear not. I am with you.” Then he left.', 'He said: “Fear not. I am with you.”'],
+        ['es-ES', 'Él dijo: «No temas. Yo estoy contigo.» Luego partió.', 'Él dijo: «No temas. Yo estoy contigo.»'],
+        ['fr-FR', 'Il dit : «Ne crains pas. Je suis avec toi.» Puis il partit.', 'Il dit : «Ne crains pas. Je suis avec toi.»'],
+        ['de-DE', 'Er sagte: „Fürchte dich nicht. Ich bin bei dir.“ Dann ging er.', 'Er sagte: „Fürchte dich nicht. Ich bin bei dir.“'],
+    ])('keeps the closing quotation mark with its sentence in %s', (language, text, expected) => {
+        expect(smartTruncate(text, lengthUpTo(text, expected) + 3, language)).toBe(expected);
+    });
+
+    it.each([
+        ['pt-BR', 'Ele disse: “Não temas. Eu estou contigo.” Depois partiu.', 'Eu estou', 'Ele disse: “Não temas. Eu...”'],
+        ['en-US', 'He said: “Fear not. I am with you.” Then he left.', 'I am with', 'He said: “Fear not. I am...”'],
+        ['es-ES', 'Él dijo: «No temas. Yo estoy contigo.» Luego partió.', 'Yo estoy', 'Él dijo: «No temas. Yo...»'],
+        ['fr-FR', 'Il dit : «Ne crains pas. Je suis avec toi.» Puis il partit.', 'Je suis', 'Il dit : «Ne crains pas. Je...»'],
+        ['de-DE', 'Er sagte: „Fürchte dich nicht. Ich bin bei dir.“ Dann ging er.', 'Ich bin', 'Er sagte: „Fürchte dich nicht. Ich...“'],
+    ])('does not cut inside an open quotation in %s', (language, text, upTo, expected) => {
+        expect(smartTruncate(text, lengthUpTo(text, upTo), language)).toBe(expected);
+    });
+
+    it('closes nested quotations when it cuts inside them', () => {
+        const text = 'Ele contou: “O anjo disse: «Não temas, Maria, pois achaste graça» e partiu.” Fim.';
+        expect(smartTruncate(text, lengthUpTo(text, 'Maria, pois'), 'pt-BR')).toBe('Ele contou: “O anjo disse: «Não temas, Maria...»”');
+    });
+
+    it('closes a quotation marked with straight quotes', () => {
+        const text = 'He said: "Fear not, for I am with you always" and left.';
+        expect(smartTruncate(text, lengthUpTo(text, 'I am with'), 'en-US')).toBe('He said: "Fear not, for I am..."');
+    });
+
+    it('ends sentences before inverted marks in Spanish', () => {
+        const text = '¿Quién es? ¡Es el Señor! Y todos callaron.';
+        expect(findSentenceEnds(text, 'es-ES')).toEqual(expect.arrayContaining([lengthUpTo(text, '¿Quién es?'), lengthUpTo(text, 'Señor!')]));
+        expect(smartTruncate(text, lengthUpTo(text, 'Y todos'), 'es-ES')).toBe('¿Quién es? ¡Es el Señor!');
+    });
+
+    it('does not leave an inverted mark at the end of a cut', () => {
+        const text = 'Y entonces todos dijeron ¡Gloria a Dios en las alturas';
+        expect(smartTruncate(text, lengthUpTo(text, 'dijeron ¡Glo'), 'es-ES')).toBe('Y entonces todos dijeron...');
+    });
+
+    it('does not end a sentence before the attribution of a dialogue line', () => {
+        const text = '— Não temas! — disse ele. — Eu estou contigo.';
+        expect(findSentenceEnds(text, 'pt-BR')).not.toContain(lengthUpTo(text, 'temas!'));
+        expect(smartTruncate(text, lengthUpTo(text, '— Eu'), 'pt-BR')).toBe('— Não temas! — disse ele.');
+        expect(smartTruncate(text, lengthUpTo(text, 'disse'), 'pt-BR')).toBe('— Não temas!...');
+    });
+
+    it('prefers a paragraph break close to the last sentence end', () => {
+        const text = 'Primeiro parágrafo, bem mais longo do que o resto do texto.\n\nCurto. Fim do texto.';
+        expect(smartTruncate(text, lengthUpTo(text, 'Curto. Fim'), 'pt-BR')).toBe('Primeiro parágrafo, bem mais longo do que o resto do texto.');
+    });
+
+    it('prefers the last sentence end when the paragraph break is far behind', () => {
+        const text = 'Curto.\n\nSegundo parágrafo, bem mais longo do que o primeiro. Fim do texto.';
+        expect(smartTruncate(text, lengthUpTo(text, 'Fim'), 'pt-BR')).toBe('Curto.\n\nSegundo parágrafo, bem mais longo do que o primeiro.');
+    });
+
+    it('cuts at the last word and adds an ellipsis when no sentence ends', () => {
+        const text = 'Um texto sem pontuação alguma que continua por muito tempo';
+        expect(smartTruncate(text, lengthUpTo(text, 'pontuação al'), 'pt-BR')).toBe('Um texto sem pontuação...');
+    });
+
+    it('does not leave a period before the ellipsis', () => {
+        const text = 'He said: “Fear not. I am with you.” Then he left.';
+        expect(smartTruncate(text, lengthUpTo(text, 'I am'), 'en-US')).toBe('He said: “Fear not...”');
+    });
+
+    it('keeps the ellipsis and the closing marks within the maximum length', () => {
+        const text = 'Ele contou: “O anjo disse: «Não temas, Maria, pois achaste graça diante de Deus» e partiu';
+        for (let maxLength = 0; maxLength < text.length; maxLength++) {
+            expect(smartTruncate(text, maxLength, 'pt-BR').length).toBeLessThanOrEqual(maxLength);
+        }
+    });
+};
+
+describe('smartTruncate with Intl.Segmenter', () => {
+    runCases();
+});
+
+describe('smartTruncate without Intl.Segmenter', () => {
+    const intl: { Segmenter?: typeof Intl.Segmenter } = Intl;
+    const segmenter = Intl.Segmenter;
+
+    beforeEach(() => {
+        delete intl.Segmenter;
+    });
+
+    afterEach(() => {
+        intl.Segmenter = segmenter;
+    });
+
+    runCases();
+});
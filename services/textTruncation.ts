@@ -0,0 +1,155 @@
+/** Quotation marks of each language as [opening, closing] pairs; equal marks toggle. */
+const quotePairs: Record<string, [string, string][]> = {
+    'pt-BR': [['“', '”'], ['«', '»'], ['"', '"']],
+    'en-US': [['“', '”'], ['"', '"']],
+    'es-ES': [['«', '»'], ['“', '”'], ['"', '"']],
+    'fr-FR': [['«', '»'], ['“', '”'], ['"', '"']],
+    'de-DE': [['„', '“'], ['»', '«'], ['"', '"']],
+};
+
+/** Abbreviations whose period does not end a sentence, compared in lower case. */
+const abbreviations: Record<string, string[]> = {
+    'pt-BR': ['sr', 'sra', 'dr', 'dra', 'cap', 'caps', 'v', 'vv', 'cf', 'p', 'pe', 'sto', 'sta'],
+    'en-US': ['mr', 'mrs', 'ms', 'dr', 'st', 'ch', 'v', 'vv', 'cf', 'p'],
+    'es-ES': ['sr', 'sra', 'dr', 'dra', 'cap', 'v', 'vv', 'cf', 'p', 'sto', 'sta'],
+    'fr-FR': ['m', 'mme', 'mlle', 'dr', 'st', 'ste', 'ch', 'v', 'cf', 'p'],
+    'de-DE': ['hr', 'fr', 'dr', 'st', 'nr', 'vgl', 'bzw', 'kap', 'v', 'z.b', 'd.h', 's'],
+};
+
+const DEFAULT_LANGUAGE = 'pt-BR';
+const ELLIPSIS = '...';
+const TERMINAL_PATTERN = /[.!?…]/;
+
+/**
+ * A paragraph break is preferred over a later sentence end as long as it keeps
+ * at least this share of the text the sentence end would keep.
+ */
+const PARAGRAPH_PREFERENCE = 0.8;
+
+/**
+ * Returns the quotation marks of a language as [opening, closing] pairs.
+ */
+export const getQuotePairs = (language: string): [string, string][] => quotePairs[language] ?? quotePairs[DEFAULT_LANGUAGE];
+
+/**
+ * Lists the offsets where a sentence may end: the sentences of Intl.Segmenter where the platform
+ * has it, along with a punctuation scan, which also finds the ends the segmenter misses, such as
+ * one followed by a dialogue dash. Offsets point right after the sentence and its closing marks.
+ */
+const findCandidateEnds = (text: string, language: string): number[] => {
+    const segmentEnds = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+        ? Array.from(new Intl.Segmenter(language, { granularity: 'sentence' }).segment(text))
+            .filter(({ segment }) => segment.trim())
+            .map(({ segment, index }) => index + segment.trimEnd().length)
+        : [];
+    const ends = Array.from(text.matchAll(/[.!?…]+["'”’»«“)\]]*(?=\s|$|[¡¿—–])/g), match => (match.index ?? 0) + match[0].length);
+    const lineEnds = Array.from(text.matchAll(/\S[ \t]*\n/g), match => (match.index ?? 0) + 1);
+    return [...segmentEnds, ...ends, ...lineEnds].sort((a, b) => a - b);
+};
+
+/**
+ * Checks that a candidate offset is a real sentence end: it follows terminal punctuation
+ * or a line break, is not an abbreviation or a verse number such as "3.16",
+ * and is not followed by the attribution of a dialogue line ("— disse ele").
+ */
+const isSentenceEnd = (text: string, end: number, language: string): boolean => {
+    const before = text.slice(0, end).replace(/["'”’»«“)\]]+$/, '');
+    const after = text.slice(end);
+    if (/^[ \t]*(\n|$)/.test(after)) {
+        return true;
+    }
+    if (!TERMINAL_PATTERN.test(before.slice(-1))) {
+        return false;
+    }
+    if (/^\d/.test(after)) {
+        return false;
+    }
+    if (/^\s*[—–-]\s*\p{Ll}/u.test(after)) {
+        return false;
+    }
+    if (before.endsWith('.') && !before.endsWith('..')) {
+        const lastWord = before.slice(0, -1).split(/\s/).pop()?.toLowerCase() ?? '';
+        const known = abbreviations[language] ?? abbreviations[DEFAULT_LANGUAGE];
+        if (known.includes(lastWord)) {
+            return false;
+        }
+    }
+    return true;
+};
+
+/**
+ * Lists the quotations left open at the end of a text, from the outermost to the innermost.
+ * A closing mark also closes the quotations left open inside the one it closes.
+ */
+const getOpenQuotes = (text: string, language: string): [string, string][] => {
+    const pairs = getQuotePairs(language);
+    const open: [string, string][] = [];
+    for (const char of text) {
+        const closed = open.map(([, close]) => close).lastIndexOf(char);
+        if (closed !== -1) {
+            open.splice(closed);
+            continue;
+        }
+        const pair = pairs.find(([opening]) => opening === char);
+        if (pair) {
+            open.push(pair);
+        }
+    }
+    return open;
+};
+
+const hasBalancedQuotes = (text: string, language: string): boolean => getOpenQuotes(text, language).length === 0;
+
+/**
+ * Finds the offsets where the text can be cut after a complete sentence, in order.
+ * @param text The text to segment.
+ * @param language The language code of the text, such as 'pt-BR'.
+ * @returns The offsets right after each sentence, closing quotes included.
+ */
+export const findSentenceEnds = (text: string, language: string = DEFAULT_LANGUAGE): number[] =>
+    Array.from(new Set(findCandidateEnds(text, language)))
+        .filter(end => end > 0 && isSentenceEnd(text, end, language));
+
+/**
+ * Truncates text to a maximum length without breaking a sentence.
+ * It prefers the last paragraph break, then the last sentence end, skipping cuts that
+ * would leave a quotation open. Without any sentence end it cuts at the last whole word,
+ * adds an ellipsis and closes the open quotes, all within the maximum length.
+ * @param text The text to truncate.
+ * @param maxLength The maximum allowed length.
+ * @param language The language code of the text, such as 'pt-BR'.
+ * @returns The truncated text.
+ */
+export const smartTruncate = (text: string, maxLength: number, language: string = DEFAULT_LANGUAGE): string => {
+    if (text.length <= maxLength) {
+        return text;
+    }
+
+    const ends = findSentenceEnds(text, language)
+        .filter(end => end <= maxLength && hasBalancedQuotes(text.slice(0, end), language));
+    if (ends.length > 0) {
+        const lastSentenceEnd = ends[ends.length - 1];
+        const lastParagraphEnd = ends.filter(end => /^[ \t]*\n/.test(text.slice(end))).pop();
+        const end = lastParagraphEnd !== undefined && lastParagraphEnd >= lastSentenceEnd * PARAGRAPH_PREFERENCE
+            ? lastParagraphEnd
+            : lastSentenceEnd;
+        return text.slice(0, end);
+    }
+
+    // No complete sentence fits: cut at the last whole word and close what was left open,
+    // dropping words until the ellipsis and the closing marks fit too.
+    for (let limit = maxLength - ELLIPSIS.length; limit > 0;) {
+        const searchArea = text.substring(0, limit);
+        const lastSpace = /\s/.test(text.charAt(limit)) ? limit : searchArea.search(/\s\S*$/);
+        const cut = (lastSpace > 0 ? searchArea.substring(0, lastSpace) : searchArea).replace(/[\s¡¿—–,;:.-]+$/, '');
+        const closers = getOpenQuotes(cut, language)
+            .reverse()
+            .map(([, close]) => close)
+            .join('');
+        if (cut.length + ELLIPSIS.length + closers.length <= maxLength) {
+            return `${cut}${ELLIPSIS}${closers}`;
+        }
+        limit = Math.min(cut.length, limit) - 1;
+    }
+    return text.slice(0, maxLength);
+};
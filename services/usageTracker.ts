@@ -0,0 +1,112 @@
+import { TokenUsage, UsageRecord } from "../types";
+
+export interface ModelPrice {
+    /** US dollars per million prompt tokens. */
+    inputPerMillion: number;
+    /** US dollars per million output tokens. */
+    outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageSummary extends TokenUsage {
+    calls: number;
+    cost: number;
+    /** True when at least one call used a model missing from the price table. */
+    hasUnpricedCalls: boolean;
+}
+
+export const defaultPriceTable: PriceTable = {
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.60 },
+    'gpt-4o': { inputPerMillion: 2.50, outputPerMillion: 10.00 },
+    'mock': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+/** Days of usage kept in the local log for the per-day totals. */
+export const USAGE_LOG_RETENTION_DAYS = 30;
+
+export const operationLabels: Record<string, string> = {
+    enhance: 'Aprimorar ideia',
+    content: 'Conteúdo',
+    refine: 'Ajuste de tamanho',
+    titles: 'Títulos',
+    description: 'Descrição',
+    tags: 'Tags',
+    cta: 'CTA',
+    thumbnail: 'Thumbnail',
+    all: 'Gerar tudo',
+    repair: 'Reparo de campos',
+    outline: 'Texto longo: roteiro',
+    section: 'Texto longo: seções',
+    smooth: 'Texto longo: revisão',
+    doctrine: 'Revisão doutrinária',
+    series: 'Memória da série',
+};
+
+/**
+ * Estimates the cost of a single call. Local models and unknown models cost nothing.
+ * @param record The usage of the call.
+ * @param priceTable The price per model.
+ * @returns The estimated cost in US dollars.
+ */
+export const estimateCost = (record: UsageRecord, priceTable: PriceTable): number => {
+    const price = priceTable[record.model];
+    if (!price) {
+        return 0;
+    }
+    return (record.promptTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+/**
+ * Adds up tokens and cost for a list of calls.
+ */
+export const summarizeUsage = (records: UsageRecord[], priceTable: PriceTable): UsageSummary =>
+    records.reduce<UsageSummary>((summary, record) => ({
+        calls: summary.calls + 1,
+        promptTokens: summary.promptTokens + record.promptTokens,
+        outputTokens: summary.outputTokens + record.outputTokens,
+        cost: summary.cost + estimateCost(record, priceTable),
+        hasUnpricedCalls: summary.hasUnpricedCalls || !priceTable[record.model],
+    }), { calls: 0, promptTokens: 0, outputTokens: 0, cost: 0, hasUnpricedCalls: false });
+
+/**
+ * Returns the local calendar day of a timestamp as YYYY-MM-DD.
+ */
+export const getDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Groups calls by local calendar day, most recent day first.
+ */
+export const summarizeUsageByDay = (records: UsageRecord[], priceTable: PriceTable): { day: string; summary: UsageSummary }[] => {
+    const byDay = new Map<string, UsageRecord[]>();
+    records.forEach(record => {
+        const day = getDayKey(record.timestamp);
+        byDay.set(day, [...(byDay.get(day) ?? []), record]);
+    });
+    return Array.from(byDay.entries())
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([day, dayRecords]) => ({ day, summary: summarizeUsage(dayRecords, priceTable) }));
+};
+
+/**
+ * Drops calls older than the retention period from the usage log.
+ */
+export const pruneUsageLog = (records: UsageRecord[], now: number = Date.now()): UsageRecord[] => {
+    const cutoff = now - USAGE_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return records.filter(record => record.timestamp >= cutoff);
+};
+
+/**
+ * Formats a summary as a short line, e.g. "12.345 tokens · US$ 0,0123".
+ */
+export const formatUsageSummary = (summary: UsageSummary): string => {
+    const tokens = (summary.promptTokens + summary.outputTokens).toLocaleString('pt-BR');
+    const cost = summary.cost.toLocaleString('pt-BR', { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+    return `${tokens} tokens · US$ ${cost}${summary.hasUnpricedCalls ? '*' : ''}`;
+};
@@ -1,6 +1,41 @@
 export enum CreationType {
   Story = 'story',
   Prayer = 'prayer',
+  Devotional = 'devotional',
+  SermonOutline = 'sermonOutline',
+  BibleStudy = 'bibleStudy',
+  ChildrensStory = 'childrensStory',
+}
+
+export enum GenerationStrategy {
+  Single = 'single',
+  Parallel = 'parallel',
+}
+
+export enum LengthUnit {
+  Characters = 'characters',
+  Words = 'words',
+  SpokenMinutes = 'spokenMinutes',
+  ReadingMinutes = 'readingMinutes',
+}
+
+export enum LengthMode {
+  /** Refines and, as a last resort, truncates until the content fits the band. */
+  Strict = 'strict',
+  /** Keeps the content as generated and only warns when it falls outside the band. */
+  Soft = 'soft',
+}
+
+export enum ToleranceKind {
+  Absolute = 'absolute',
+  Percent = 'percent',
+}
+
+export interface LengthPolicy {
+    mode: LengthMode;
+    toleranceKind: ToleranceKind;
+    /** In the unit of the band (characters or words) or as a percentage of the target. */
+    tolerance: number;
 }
 
 export interface GenerationParams {
@@ -10,8 +45,92 @@ export interface GenerationParams {
     titlePrompt: string;
     descriptionPrompt: string;
     thumbnailPrompt: string;
-    characterCount: number;
+    lengthUnit: LengthUnit;
+    /** The target in `lengthUnit`: characters, words or minutes. */
+    targetLength: number;
+    /** Narration pace used to convert spoken minutes to words. */
+    speakingWpm: number;
+    lengthPolicy: LengthPolicy;
     language: string;
+    /** Passages the content must stay faithful to; absent in creations saved before they existed. */
+    passages?: ScripturePassage[];
+    /** The series the content is an episode of, if any. */
+    seriesId?: string;
+    episodeNumber?: number;
+}
+
+/** A character of a series, kept consistent across its episodes. */
+export interface SeriesCharacter {
+    name: string;
+    /** Role, traits and the facts about the character established so far. */
+    description: string;
+}
+
+export interface EpisodeSummary {
+    episodeNumber: number;
+    summary: string;
+}
+
+/** A multi-part story whose episodes are separate creations. */
+export interface Series {
+    id: string;
+    name: string;
+    timestamp: number;
+    /** The running synopsis: one summary per episode written so far, in episode order. */
+    synopsis: EpisodeSummary[];
+    characters: SeriesCharacter[];
+    /** Tags shared by every episode, listed before the tags generated for each one. */
+    tags: string[];
+}
+
+/** The doctrinal stance of the ministry, applied to every prompt and to the review of the content. */
+export interface DoctrinalProfile {
+    /** Tradition or denomination, such as "batista reformada". */
+    tradition: string;
+    /** Translation the content should quote when no passage names another one. */
+    preferredTranslation: string;
+    avoidTerms: string[];
+    preferredTerms: string[];
+    /** Topics to handle with care, without taking sides the ministry does not hold. */
+    sensitiveTopics: string[];
+}
+
+/** A Bible passage chosen by the user to anchor the content. */
+export interface ScripturePassage {
+    /** Book code from the Bible index, such as 'JHN'. */
+    bookId: string;
+    chapter: number;
+    /** First verse; without it the passage is the whole chapter. */
+    verseStart?: number;
+    verseEnd?: number;
+    /** The translation the text was taken from. */
+    translation: string;
+    /** The verses, empty when the text of the translation is not available. */
+    text: string;
+}
+
+export enum LengthCandidateSource {
+  Generated = 'generated',
+  Refined = 'refined',
+  Truncated = 'truncated',
+}
+
+/** One version of the main content produced while fitting it to the length band. */
+export interface LengthCandidate {
+    source: LengthCandidateSource;
+    /** 0 for the first generation, then the number of the refinement it came from. */
+    attempt: number;
+    content: string;
+    /** Length in the unit of the trail. */
+    length: number;
+}
+
+export interface LengthTrail {
+    /** The unit the candidates were measured in: characters or words. */
+    unit: LengthUnit.Characters | LengthUnit.Words;
+    candidates: LengthCandidate[];
+    /** Index of the candidate in use. */
+    selected: number;
 }
 
 export interface AllContentResponse {
@@ -23,7 +142,82 @@ export interface AllContentResponse {
     thumbnailPrompt: string;
 }
 
-export interface Creation extends GenerationParams, AllContentResponse {
+export enum RevisionSource {
+  Generated = 'generated',
+  Regenerated = 'regenerated',
+  /** The length-fitting refinement replaced the generated text. */
+  Refined = 'refined',
+  Edited = 'edited',
+  Restored = 'restored',
+}
+
+export type RevisionField = keyof AllContentResponse;
+
+/** One saved value of a field of a creation. */
+export interface Revision {
+    id: string;
+    timestamp: number;
+    field: RevisionField;
+    value: string | string[];
+    source: RevisionSource;
+    /** The modification asked for in the regeneration. */
+    modification?: string;
+    /** The revision a restored value was taken from. */
+    restoredFrom?: string;
+}
+
+export interface Creation {
     id: string;
     timestamp: number;
+    /** When the creation was last changed: generated, edited, restored or given usage. */
+    updatedAt: number;
+    /** What the user asked for, including their own thumbnail wish. */
+    params: GenerationParams;
+    /** What was generated, including the thumbnail prompt written by the AI. */
+    outputs: AllContentResponse;
+    usage?: UsageRecord[];
+    lengthTrail?: LengthTrail;
+    /** Every value each field has had, oldest first. */
+    revisions?: Revision[];
+}
+
+export enum LlmProviderId {
+  Gemini = 'gemini',
+  OpenAICompatible = 'openai',
+  Ollama = 'ollama',
+  Mock = 'mock',
+}
+
+export enum MockScenario {
+  Normal = 'normal',
+  TooLong = 'tooLong',
+  TooShort = 'tooShort',
+  MalformedJson = 'malformedJson',
+  PartialJson = 'partialJson',
+  Overloaded = 'overloaded',
+  RateLimited = 'rateLimited',
+  QuotaExceeded = 'quotaExceeded',
+  InvalidKey = 'invalidKey',
+  NetworkFailure = 'networkFailure',
+  SafetyBlock = 'safetyBlock',
+}
+
+export interface ProviderSettings {
+    provider: LlmProviderId;
+    apiKey: string;
+    baseUrl: string;
+    model: string;
+    mockScript?: MockScenario[];
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    outputTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+    timestamp: number;
+    provider: LlmProviderId;
+    model: string;
+    operation: string;
 }